@@ -1,16 +1,24 @@
+import { HeroEventBus } from '../events';
+import { HERO_THEMES, cssColor, type HeroTheme } from '../theme';
+import { onReducedMotionChange, prefersReducedMotion } from '../../reducedMotion';
+import { LOCALES, graphemes, type HeroLocale } from '../../i18n';
+
+// Typewriter duration for both lines, whatever their length; the background times the gore glow off it
+export const NAME_TYPING_MS = 2000;
+
 export class CompanyName {
-    private container: HTMLElement;
+    protected container: HTMLElement;
     private element: HTMLDivElement | null = null;
     private visible = false;
     private animationProgress = 0;
     private typewriterProgress = 0;
     private animationId: number | null = null;
 
-    private companyName = "SOPHON SYSTEMS";
     private currentText = "";
     // Replace single-line spans with two-line structure and per-line cursors
-    private line1Text = "SOPHON";
-    private line2Text = "SYSTEMS";
+    private locale: HeroLocale;
+    private line1Text: string;
+    private line2Text: string;
     private line1Wrap: HTMLDivElement | null = null;
     private line2Wrap: HTMLDivElement | null = null;
     private line1Span: HTMLSpanElement | null = null;
@@ -21,16 +29,16 @@ export class CompanyName {
     // Subtitle (stage text) under the eye
     private subtitleEl: HTMLDivElement | null = null;
     private subtitleAnimId: number | null = null;
-    private subtitleText = '';
+    // Typed so far, one entry per grapheme
+    private subtitleChars: string[] = [];
     private subtitleState: 'idle' | 'typing' | 'backspacing' = 'idle';
-    private onStageType?: (e: Event) => void;
-    private onStageBackspace?: (e: Event) => void;
+    protected events: HeroEventBus;
+    private unsubscribers: Array<() => void> = [];
 
     private static readonly SHIMMER_INTERVAL_MS = 10000; // pulse every n seconds (default 10s)
     private static readonly SHIMMER_CYCLE_MS = 4000;      // bright pulse duration (9s)
     private static readonly SHIMMER_FIRST_DELAY_MS = 5000; // first pulse after dim + short hold
-    // New: full base glow and fade duration
-    private static readonly BASE_GLOW_SHADOW = `0 0 10px #ffffff, 0 0 20px #e6f6ff, 0 0 30px #9edfff, 0 0 40px #9edfff`;
+    // New: fade duration
     private static readonly GLOW_FADE_MS = 1000;
     // New: cap how bright the pulse can get
     private static readonly MAX_PULSE_INTENSITY = 0.65;
@@ -42,15 +50,27 @@ export class CompanyName {
     private lastShimmerTime = 0;
     // New: track when dimming started
     private pulseInitTime = 0;
-
-    constructor(container: HTMLElement) {
+    // Active (possibly cross-fading) theme and last applied glow intensity (null = full base glow)
+    private theme: HeroTheme = HERO_THEMES.dark;
+    private glowIntensity: number | null = null;
+    // Reduced motion: no typewriter, static glow instead of pulses
+    private reducedMotion = prefersReducedMotion();
+    private typingDone = false;
+
+    constructor(container: HTMLElement, events: HeroEventBus = new HeroEventBus(), locale: HeroLocale = LOCALES.en) {
         this.container = container;
+        this.events = events;
+        this.locale = locale;
+        this.line1Text = locale.strings.companyLine1;
+        this.line2Text = locale.strings.companyLine2;
         this.createElement();
     }
 
     private createElement(): void {
         this.element = document.createElement('div');
         this.element.className = 'company-name';
+        this.element.lang = this.locale.code;
+        this.element.dir = this.locale.dir;
         this.element.style.cssText = `
             position: absolute;
       top: var(--hero-center);
@@ -154,6 +174,8 @@ export class CompanyName {
         // Subtitle element centered under the eye/company
         this.subtitleEl = document.createElement('div');
         this.subtitleEl.className = 'company-subtitle';
+        this.subtitleEl.lang = this.locale.code;
+        this.subtitleEl.dir = this.locale.dir;
         this.subtitleEl.style.cssText = `
             position: absolute;
       top: calc(var(--hero-center) + 120px);
@@ -179,26 +201,30 @@ export class CompanyName {
         this.container.appendChild(this.subtitleEl);
 
         // Listen for stage text control events
-        this.onStageType = (e: Event) => {
-            const detail = (e as CustomEvent).detail || {};
-            const text = (detail.text ?? '').toString();
-            this.typeSubtitle(text);
-        };
-        this.onStageBackspace = () => this.backspaceSubtitle();
-        window.addEventListener('stageTextType', this.onStageType as EventListener);
-        window.addEventListener('stageTextBackspace', this.onStageBackspace as EventListener);
+        this.unsubscribers.push(
+            this.events.on('stageTextType', ({ text }) => this.typeSubtitle(text)),
+            this.events.on('stageTextBackspace', () => this.backspaceSubtitle()),
+            this.events.on('themeChange', ({ theme }) => this.applyTheme(theme)),
+            onReducedMotionChange(reduced => this.setReducedMotion(reduced))
+        );
     }
 
     // Type subtitle with simple typewriter effect
     private typeSubtitle(text: string) {
         if (!this.subtitleEl) return;
-        const target = (text || '').toUpperCase();
+        const target = graphemes((text || '').toLocaleUpperCase(this.locale.code), this.locale.code);
         // Cancel any ongoing animation
         if (this.subtitleAnimId) { cancelAnimationFrame(this.subtitleAnimId); this.subtitleAnimId = null; }
         this.subtitleState = 'typing';
-        this.subtitleText = '';
+        this.subtitleChars = [];
         this.subtitleEl.textContent = '';
         this.subtitleEl.style.opacity = '1';
+        if (this.reducedMotion) {
+            this.subtitleChars = target;
+            this.subtitleEl.textContent = target.join('');
+            this.subtitleState = 'idle';
+            return;
+        }
 
         const perCharMs = 70;
         const start = performance.now();
@@ -207,9 +233,9 @@ export class CompanyName {
         const step = (now: number) => {
             if (this.subtitleState !== 'typing') return;
             const typed = Math.min(len, Math.floor((now - start) / perCharMs));
-            if (typed !== this.subtitleText.length) {
-                this.subtitleText = target.substring(0, typed);
-                this.subtitleEl!.textContent = this.subtitleText;
+            if (typed !== this.subtitleChars.length) {
+                this.subtitleChars = target.slice(0, typed);
+                this.subtitleEl!.textContent = this.subtitleChars.join('');
             }
             if (typed < len) {
                 this.subtitleAnimId = requestAnimationFrame(step);
@@ -226,17 +252,24 @@ export class CompanyName {
         if (!this.subtitleEl) return;
         if (this.subtitleAnimId) { cancelAnimationFrame(this.subtitleAnimId); this.subtitleAnimId = null; }
         this.subtitleState = 'backspacing';
+        if (this.reducedMotion) {
+            this.subtitleChars = [];
+            this.subtitleEl.textContent = '';
+            this.subtitleEl.style.opacity = '0';
+            this.subtitleState = 'idle';
+            return;
+        }
         const perCharMs = 50;
-        const startLen = this.subtitleText.length;
+        const startLen = this.subtitleChars.length;
         const start = performance.now();
 
         const step = (now: number) => {
             if (this.subtitleState !== 'backspacing') return;
             const gone = Math.min(startLen, Math.floor((now - start) / perCharMs));
             const remain = Math.max(0, startLen - gone);
-            if (remain !== this.subtitleText.length) {
-                this.subtitleText = this.subtitleText.substring(0, remain);
-                this.subtitleEl!.textContent = this.subtitleText;
+            if (remain !== this.subtitleChars.length) {
+                this.subtitleChars = this.subtitleChars.slice(0, remain);
+                this.subtitleEl!.textContent = this.subtitleChars.join('');
             }
             if (remain > 0) {
                 this.subtitleAnimId = requestAnimationFrame(step);
@@ -257,17 +290,61 @@ export class CompanyName {
         this.animationProgress = 0;
         this.typewriterProgress = 0;
         this.currentText = "";
+        this.typingDone = false;
+        if (this.reducedMotion) {
+            this.events.emit('companyNameTypingStart');
+            this.events.emit('companyNameTypingProgress', { progress: 1 });
+            this.finishTyping();
+            return;
+        }
         this.startTypewriterAnimation();
     }
 
+    public setReducedMotion(reduced: boolean): void {
+        this.reducedMotion = reduced;
+        if (!this.visible) return;
+        if (reduced) {
+            // Stop typing / pulsing and settle on the final static state
+            if (this.animationId) { cancelAnimationFrame(this.animationId); this.animationId = null; }
+            this.finishTyping();
+        } else if (this.typingDone && !this.animationId) {
+            this.startPulseAnimation();
+        }
+    }
+
+    // Show the full name, notify the background and enter the idle glow (static when motion is reduced)
+    private finishTyping(): void {
+        if (!this.element) return;
+        const alreadyDone = this.typingDone;
+        this.typingDone = true;
+        this.line1Span!.textContent = this.line1Text;
+        this.line2Span!.textContent = this.line2Text;
+        this.cursor1Span!.style.opacity = '0';
+        this.cursor2Span!.style.opacity = '0';
+        this.element.style.opacity = '1';
+        if (!alreadyDone) {
+            // Notify background: typing finished (keep glow persistent)
+            this.events.emit('companyNameTypingFinished');
+            // Notify background: typing finished -> remove bright gore outlines
+            this.events.emit('companyNameTypingEnd');
+        }
+        if (this.reducedMotion) {
+            this.applyGlowIntensity(CompanyName.DIM_INTENSITY);
+            this.events.emit('companyNameGlow', { intensity: CompanyName.DIM_INTENSITY });
+        } else {
+            this.applyBaseGlow(); // will quickly dim next
+            this.startPulseAnimation();
+        }
+    }
+
     public hide(): void {
         if (!this.element || !this.visible) return;
 
         this.visible = false;
         // Notify background that typing visual should stop (in case we hide mid-typing)
-        try { window.dispatchEvent(new CustomEvent('companyNameTypingEnd')); } catch { }
+        this.events.emit('companyNameTypingEnd');
         // Notify background that the name is hidden -> stop persistent glow
-        try { window.dispatchEvent(new CustomEvent('companyNameHidden')); } catch { }
+        this.events.emit('companyNameHidden');
         this.element.style.opacity = '0';
         if (this.line1Span) this.line1Span.textContent = '';
         if (this.line2Span) this.line2Span.textContent = '';
@@ -279,21 +356,23 @@ export class CompanyName {
             this.animationId = null;
         }
         if (this.subtitleAnimId) { cancelAnimationFrame(this.subtitleAnimId); this.subtitleAnimId = null; }
-        if (this.subtitleEl) { this.subtitleEl.style.opacity = '0'; this.subtitleEl.textContent = ''; this.subtitleText = ''; }
+        if (this.subtitleEl) { this.subtitleEl.style.opacity = '0'; this.subtitleEl.textContent = ''; this.subtitleChars = []; }
     }
 
     private startTypewriterAnimation(): void {
         if (!this.element || !this.line1Span || !this.line2Span || !this.cursor1Span || !this.cursor2Span || !this.line1Wrap || !this.line2Wrap) return;
 
         // Ensure we start with the full glow each time
-        this.element.style.textShadow = CompanyName.BASE_GLOW_SHADOW;
+        this.applyBaseGlow();
         // Notify background: typing has started -> show bright gore outlines
-        try { window.dispatchEvent(new CustomEvent('companyNameTypingStart')); } catch { }
+        this.events.emit('companyNameTypingStart');
 
-        const duration = 2000; // 2 seconds total
+        const duration = NAME_TYPING_MS;
         const startTime = performance.now();
-        const len1 = this.line1Text.length;
-        const len2 = this.line2Text.length;
+        const chars1 = graphemes(this.line1Text, this.locale.code);
+        const chars2 = graphemes(this.line2Text, this.locale.code);
+        const len1 = chars1.length;
+        const len2 = chars2.length;
         const total = len1 + len2;
 
         const animate = (currentTime: number) => {
@@ -305,8 +384,8 @@ export class CompanyName {
             const l1 = Math.min(typed, len1);
             const l2 = Math.max(0, typed - len1);
 
-            this.line1Span!.textContent = this.line1Text.substring(0, l1);
-            this.line2Span!.textContent = this.line2Text.substring(0, l2);
+            this.line1Span!.textContent = chars1.slice(0, l1).join('');
+            this.line2Span!.textContent = chars2.slice(0, l2).join('');
 
             // Fade in once typing starts
             if (progress > 0.1) this.element!.style.opacity = '1';
@@ -314,10 +393,13 @@ export class CompanyName {
             // Blink cursor
             const showCursor = progress < 1 && Math.floor(elapsed / 500) % 2 === 0;
             // Position cursors after the current text, centered inside each line wrapper
+            // (to the left of it in right-to-left locales)
             const placeCursor = (wrap: HTMLDivElement, textSpan: HTMLSpanElement, cursor: HTMLSpanElement) => {
                 const wrapW = wrap.clientWidth;
                 const textW = textSpan.offsetWidth;
-                const left = (wrapW - textW) / 2 + textW;
+                const left = this.locale.dir === 'rtl'
+                    ? (wrapW - textW) / 2 - cursor.offsetWidth
+                    : (wrapW - textW) / 2 + textW;
                 cursor.style.left = `${left}px`;
             };
 
@@ -338,24 +420,13 @@ export class CompanyName {
             }
 
             // Broadcast typing progress 0..1
-            try {
-                window.dispatchEvent(new CustomEvent('companyNameTypingProgress', { detail: { progress } }));
-            } catch { }
+            this.events.emit('companyNameTypingProgress', { progress });
 
             if (progress < 1 && this.visible) {
                 this.animationId = requestAnimationFrame(animate);
             } else {
                 // Finish: show full text, then enter dim baseline + periodic bright pulse
-                this.line1Span!.textContent = this.line1Text;
-                this.line2Span!.textContent = this.line2Text;
-                this.cursor1Span!.style.opacity = '0';
-                this.cursor2Span!.style.opacity = '0';
-                this.element!.style.textShadow = CompanyName.BASE_GLOW_SHADOW; // will quickly dim next
-                // Notify background: typing finished (keep glow persistent)
-                try { window.dispatchEvent(new CustomEvent('companyNameTypingFinished')); } catch { }
-                // Notify background: typing finished -> remove bright gore outlines
-                try { window.dispatchEvent(new CustomEvent('companyNameTypingEnd')); } catch { }
-                this.startPulseAnimation();
+                this.finishTyping();
             }
         };
 
@@ -385,7 +456,7 @@ export class CompanyName {
                 currentIntensity = 1 - (1 - CompanyName.DIM_INTENSITY) * smooth;
                 this.applyGlowIntensity(currentIntensity);
                 // Broadcast current glow intensity
-                try { window.dispatchEvent(new CustomEvent('companyNameGlow', { detail: { intensity: currentIntensity } })); } catch { }
+                this.events.emit('companyNameGlow', { intensity: currentIntensity });
                 this.animationId = requestAnimationFrame(animate);
                 return;
             }
@@ -416,7 +487,7 @@ export class CompanyName {
             }
 
             // Broadcast current glow intensity
-            try { window.dispatchEvent(new CustomEvent('companyNameGlow', { detail: { intensity: currentIntensity } })); } catch { }
+            this.events.emit('companyNameGlow', { intensity: currentIntensity });
 
             this.animationId = requestAnimationFrame(animate);
         };
@@ -424,29 +495,52 @@ export class CompanyName {
         this.animationId = requestAnimationFrame(animate);
     }
 
+    // Full glow in the theme colors
+    private applyBaseGlow(): void {
+        if (!this.element) return;
+        const t = this.theme;
+        this.glowIntensity = null;
+        this.element.style.textShadow = `0 0 10px ${cssColor(t.core)}, 0 0 20px ${cssColor(t.glowInner)}, 0 0 30px ${cssColor(t.glowOuter)}, 0 0 40px ${cssColor(t.glowOuter)}`;
+    }
+
     // Apply glow intensity 0..1 using the same colors as the base glow
     private applyGlowIntensity(intensity: number): void {
         if (!this.element) return;
         const i = Math.max(0, Math.min(1, intensity));
+        this.glowIntensity = i;
         if (i <= 0) {
             this.element.style.textShadow = 'none';
             return;
         }
+        const t = this.theme;
         this.element.style.textShadow = `
-          0 0 10px rgba(255, 255, 255, ${i}),
-          0 0 20px rgba(230, 246, 255, ${i}),
-          0 0 30px rgba(158, 223, 255, ${i}),
-          0 0 40px rgba(158, 223, 255, ${i})
+          0 0 10px ${cssColor(t.core, i)},
+          0 0 20px ${cssColor(t.glowInner, i)},
+          0 0 30px ${cssColor(t.glowOuter, i)},
+          0 0 40px ${cssColor(t.glowOuter, i)}
         `;
     }
 
+    private applyTheme(theme: HeroTheme): void {
+        this.theme = theme;
+        if (this.element) {
+            this.element.style.color = cssColor(theme.core);
+            if (this.glowIntensity === null) this.applyBaseGlow();
+            else this.applyGlowIntensity(this.glowIntensity);
+        }
+        if (this.subtitleEl) {
+            this.subtitleEl.style.color = cssColor(theme.core);
+            this.subtitleEl.style.textShadow = `0 0 6px ${cssColor(theme.core)}, 0 0 12px ${cssColor(theme.glowInner)}, 0 0 18px ${cssColor(theme.glowOuter)}`;
+        }
+    }
+
     public destroy(): void {
         if (this.animationId) {
             cancelAnimationFrame(this.animationId);
             this.animationId = null;
         }
-        if (this.onStageType) window.removeEventListener('stageTextType', this.onStageType as EventListener);
-        if (this.onStageBackspace) window.removeEventListener('stageTextBackspace', this.onStageBackspace as EventListener);
+        this.unsubscribers.forEach(off => off());
+        this.unsubscribers = [];
         if (this.element) {
             this.element.remove();
             this.element = null;
@@ -1,11 +1,12 @@
 import { CompanyName } from './CompanyName';
+import type { FontSizeDetail, HeroEventBus } from '../events';
+import type { HeroLocale } from '../../i18n';
 
 export class CompanyNameMobile extends CompanyName {
-    private mobileCompanyFontSizeHandler?: (e: Event) => void;
-    private mobileTitleFontSizeHandler?: (e: Event) => void;
+    private mobileUnsubscribers: Array<() => void> = [];
 
-    constructor(container: HTMLElement) {
-        super(container);
+    constructor(container: HTMLElement, events?: HeroEventBus, locale?: HeroLocale) {
+        super(container, events, locale);
 
         // Initialize mobile font size event listeners
         this.setupMobileFontListeners();
@@ -13,15 +14,14 @@ export class CompanyNameMobile extends CompanyName {
 
     private setupMobileFontListeners(): void {
         // Handler for company name font size event
-        this.mobileCompanyFontSizeHandler = (e: Event) => {
-            const detail = (e as CustomEvent).detail;
-            if (!detail || !detail.fontSize) return;
+        const onCompanyFontSize = (detail: FontSizeDetail) => {
+            if (!detail.fontSize) return;
 
             const fontSize = detail.fontSize;
             const letterSpacingRatio = detail.letterSpacingRatio || 0.125;
 
-            // Apply font size to main element - use DOM selectors since base properties are private
-            const element = document.querySelector('.company-name') as HTMLElement;
+            // Apply font size to main element - query within this hero since base elements are private
+            const element = this.container.querySelector('.company-name') as HTMLElement;
             if (element) {
                 element.style.fontSize = `${fontSize}px`;
                 element.style.letterSpacing = `${fontSize * letterSpacingRatio}px`;
@@ -29,15 +29,14 @@ export class CompanyNameMobile extends CompanyName {
         };
 
         // Handler for subtitle/stage text font size event
-        this.mobileTitleFontSizeHandler = (e: Event) => {
-            const detail = (e as CustomEvent).detail;
-            if (!detail || !detail.fontSize) return;
+        const onTitleFontSize = (detail: FontSizeDetail) => {
+            if (!detail.fontSize) return;
 
             const fontSize = detail.fontSize;
             const letterSpacingRatio = detail.letterSpacingRatio || 0.125;
 
-            // Apply font size to subtitle element - use DOM selectors since base properties are private
-            const subtitleEl = document.querySelector('.company-subtitle') as HTMLElement;
+            // Apply font size to subtitle element - query within this hero since base elements are private
+            const subtitleEl = this.container.querySelector('.company-subtitle') as HTMLElement;
             if (subtitleEl) {
                 subtitleEl.style.fontSize = `${fontSize}px`;
                 subtitleEl.style.letterSpacing = `${fontSize * letterSpacingRatio}px`;
@@ -50,19 +49,16 @@ export class CompanyNameMobile extends CompanyName {
         };
 
         // Add event listeners
-        window.addEventListener('mobileCompanyFontSize', this.mobileCompanyFontSizeHandler as EventListener);
-        window.addEventListener('mobileTitleFontSize', this.mobileTitleFontSizeHandler as EventListener);
+        this.mobileUnsubscribers.push(
+            this.events.on('mobileCompanyFontSize', onCompanyFontSize),
+            this.events.on('mobileTitleFontSize', onTitleFontSize)
+        );
     }
 
     public destroy(): void {
         // Clean up mobile-specific event listeners
-        if (this.mobileCompanyFontSizeHandler) {
-            window.removeEventListener('mobileCompanyFontSize', this.mobileCompanyFontSizeHandler as EventListener);
-        }
-
-        if (this.mobileTitleFontSizeHandler) {
-            window.removeEventListener('mobileTitleFontSize', this.mobileTitleFontSizeHandler as EventListener);
-        }
+        this.mobileUnsubscribers.forEach(off => off());
+        this.mobileUnsubscribers = [];
 
         // Call parent destroy
         super.destroy();
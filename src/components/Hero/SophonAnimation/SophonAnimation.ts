@@ -1,7 +1,100 @@
 import * as THREE from 'three';
-import { createCircleOutline } from './core/circles';
-import { createGoreEdges, createGoreGeometry, easeInOutCubic, lerp } from './core/geometry';
-import { BallsManager } from './core/balls';
+import { CircleOutline, type CirclePalette } from './core/circles';
+import { createGoreGeometry, easeInOutCubic, goreGridEdges, goreGridSize, goreOutline, lerp, writeGoreMorphTargets, writeGorePositions, type GridMode } from './core/geometry';
+import { createGoreMorphUniforms, type GoreMorphUniforms } from './core/goreMorph';
+import { DEFAULT_GORE_PROJECTION, gorePlacementAngle, hasGoreProjection, type GoreProjectionMix } from './core/projections';
+import { GoreOverlays, createGlowLine, type GoreOverlayStyle } from './core/goreOverlays';
+import { FrameStats, type FrameStatsSnapshot } from './core/frameStats';
+import { BallsManager, type BallBinding, type BallSimulation } from './core/balls';
+import type { BallDataSource, BallRecord } from './core/ballFeed';
+import { randomSeed } from './core/random';
+import { Announcer } from './core/announcer';
+import { CAMERA_PRESETS, wrapAngle, type CameraPresetName, type CameraView } from './core/camera';
+import { Timeline, type StageWordCue, type StageWordSample, type TimelineSegment } from './core/timeline';
+import { ScrollProgress } from './core/scrollDrive';
+import { FallbackRenderer, createWebGLContext, type FallbackGore } from './core/fallback';
+import { WebmRecorder, canvasToPng, type CaptureOptions, type CaptureResult } from './core/capture';
+import { buildSvg, type SvgExportOptions, type SvgLayer, type SvgPolyline } from './core/svgExport';
+import type { AnimationStep, SphereConfig } from './core/types';
+import { HeroEventBus, type GoreRef } from '../events';
+import { onReducedMotionChange, prefersReducedMotion } from '../../reducedMotion';
+import { NAME_TYPING_MS } from '../CompanyName/CompanyName';
+import { LOCALES, graphemes, type HeroLocale } from '../../i18n';
+import { HERO_THEMES, cssColor, mixColor, themeGoreColor, type ThemeTransition } from '../theme';
+
+export type BackgroundOptions = {
+  // Nested spheres, outermost (largest) first; colors are per gore and repeat if shorter than the gore count
+  spheres?: SphereConfig[];
+  numGores?: number;
+  gridMode?: GridMode;
+  // Sphere center height while the eye is shown and the circles align
+  eyeY?: number;
+  // Common bottom line the sphere bottoms settle on while unwrapping
+  unwrappedBottomY?: number;
+  // Hero-scoped event bus shared with CompanyName
+  events?: HeroEventBus;
+  // Seed for ball motion (random when omitted; read it back with getBallSeed())
+  ballSeed?: number;
+  // Fixed integration step for ball motion in seconds (0 = integrate per frame)
+  ballFixedStep?: number;
+  // Spawn the three built-in white balls once the logo settles (default true)
+  defaultBalls?: boolean;
+  // Idle ball simulation (interactions, migration between gores, trails); off by default
+  ballSimulation?: BallSimulation;
+  // Slow orbit while idling (eye or unwrapped logo); pauses while the user interacts
+  autoOrbit?: boolean | AutoOrbitOptions;
+  // Words typed over the hero; defaults to the locale's three stage words
+  stageWords?: StageWordSpec[];
+  // Strings and text direction (default English)
+  locale?: HeroLocale;
+  // Unfold and twist the gores in the vertex shader instead of rewriting vertices on the CPU (WebGL only)
+  gpuMorph?: boolean;
+  // Flat layout of the unwrapped gores (see core/projections); SphereConfig.projection overrides it per sphere
+  projection?: string;
+  // Lattice resolution multiplier for every grid mode (default 1, i.e. 16x8 for 'rectangular');
+  // values well above 1 are meant for gpuMorph
+  goreDetail?: number;
+};
+
+// One word of the stage track, anchored either to the start of a phase or to an absolute timeline time
+// (seconds within getDuration()); `offset` shifts it later. Timings default to the built-in word pacing.
+export type StageWordSpec = {
+  text: string;
+  at: AnimationStep | number;
+  offset?: number;
+  typeSec?: number;
+  holdSec?: number;
+  backSec?: number;
+};
+
+export type AutoOrbitOptions = {
+  speed?: number;          // rad/s around the vertical axis
+  resumeAfterSec?: number; // quiet time after the last interaction before orbiting again
+};
+
+// A ball placed on gore `gore` of sphere `sphere` (outermost sphere is 0)
+export type BallSpec = { sphere: number; gore: number; color?: number; size?: number; speed?: number };
+
+// Feed records -> balls. Categories without an entry in `categories` get a stable hashed (sphere, gore) slot.
+export type BallDataOptions = {
+  categories?: Record<string, { sphere: number; gore: number }>;
+  color?: (record: BallRecord) => number;
+  sizeRange?: [number, number];
+  glowRange?: [number, number];
+  pollMs?: number;
+};
+
+export type BallState = Required<BallSpec> & {
+  id: number;
+  local: THREE.Vector2;   // position in the gore's own XY plane
+  world: THREE.Vector3;
+};
+
+const DEFAULT_SPHERES: SphereConfig[] = [
+  { radius: 2.2, colors: [0xff4444, 0xff4444, 0xff4444, 0x44ff44, 0x44ff44, 0x44ff44, 0x4444ff, 0x4444ff, 0x4444ff] },
+  { radius: 1.4, colors: [0xff8888, 0xff8888, 0xff8888, 0x88ff88, 0x88ff88, 0x88ff88, 0x8888ff, 0x8888ff, 0x8888ff] },
+  { radius: 0.75, colors: [0xffcccc, 0xffcccc, 0xffcccc, 0xccffcc, 0xccffcc, 0xccffcc, 0xccccff, 0xccccff, 0xccccff] }
+];
 
 // Top-level helpers (fixes TS1005 by avoiding class-scope ambiguity)
 const easeInOutSine = (t: number) => {
@@ -9,88 +102,58 @@ const easeInOutSine = (t: number) => {
   return -(Math.cos(Math.PI * x) - 1) / 2;
 };
 
-const ensureDistanceAttribute = (geom: THREE.BufferGeometry): void => {
-  if (geom.getAttribute('aDist')) return;
-  const pos = geom.getAttribute('position') as THREE.BufferAttribute;
-  if (!pos) return;
-  geom.computeBoundingSphere();
-  const center = geom.boundingSphere?.center ?? new THREE.Vector3(0, 0, 0);
-  const radius = Math.max(geom.boundingSphere?.radius ?? 1e-6, 1e-6);
-  const arr = pos.array as Float32Array;
-  const out = new Float32Array(pos.count);
-  for (let i = 0; i < pos.count; i++) {
-    const x = arr[i * 3] - center.x;
-    const y = arr[i * 3 + 1] - center.y;
-    const z = arr[i * 3 + 2] - center.z;
-    const d = Math.sqrt(x * x + y * y + z * z) / radius;
-    out[i] = Math.max(0, Math.min(1, d));
-  }
-  geom.setAttribute('aDist', new THREE.BufferAttribute(out, 1));
-};
+// Gores rotate about the scene Z axis when they fan out
+const Z_AXIS = new THREE.Vector3(0, 0, 1);
 
-const createGlowLine = (
-  geom: THREE.BufferGeometry,
-  color: number,
-  baseOpacity: number,
-  reveal: number,
-  pulse: number
-): THREE.LineSegments => {
-  ensureDistanceAttribute(geom);
-  const mat = new THREE.ShaderMaterial({
-    transparent: true,
-    blending: THREE.AdditiveBlending,
-    depthTest: false,
-    depthWrite: false,
-    uniforms: {
-      uColor: { value: new THREE.Color(color) },
-      uOpacity: { value: baseOpacity },
-      uReveal: { value: reveal },
-      uPulse: { value: pulse }
-    },
-    vertexShader: `
-      attribute float aDist;
-      varying float vDist;
-      void main() {
-        vDist = aDist;
-        gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
-      }
-    `,
-    fragmentShader: `
-      precision highp float;
-      uniform vec3 uColor;
-      uniform float uOpacity;
-      uniform float uReveal;
-      uniform float uPulse;
-      varying float vDist;
-      void main() {
-        float edge = 0.12;
-        // Change mask so endpoints are included when reveal reaches 1.0
-        // Old: float mask = 1.0 - smoothstep(uReveal - edge, uReveal, vDist);
-        float mask = 1.0 - smoothstep(uReveal, uReveal + edge, vDist);
-        float alpha = uOpacity * (0.5 + 0.5 * uPulse) * mask;
-        if (alpha <= 0.001) discard;
-        gl_FragColor = vec4(uColor, alpha);
-      }
-    `
-  });
-  const line = new THREE.LineSegments(geom, mat);
-  line.renderOrder = 9995;
-  return line;
+// Longitude range of one gore on its sphere (radians)
+type GoreSlice = { start: number; span: number };
+
+// Slot i of the resting layout (see createGoreGeometry)
+const restingSlice = (index: number, numGores: number, transition: number): GoreSlice => {
+  const span = lerp(Math.PI * 2 / numGores, Math.PI * 2 / 3, transition);
+  return { start: index * span, span };
 };
 
+const sliceCenter = (slice: GoreSlice) => slice.start + slice.span / 2;
+
 export class Background {
-  private element: HTMLDivElement;
+  protected element: HTMLDivElement;
   private scene!: THREE.Scene;
   private camera!: THREE.PerspectiveCamera;
-  private renderer!: THREE.WebGLRenderer;
+  // Exactly one of these is set: WebGL when available, otherwise the static Canvas2D layout
+  private renderer: THREE.WebGLRenderer | null = null;
+  private fallback: FallbackRenderer | null = null;
   private animationId: number | null = null;
 
   // Callback for animation completion
   private onAnimationComplete?: () => void;
 
+  // Active theme (blended while cross-fading), see ThemeController
+  private themeState: ThemeTransition = { theme: HERO_THEMES.dark, from: HERO_THEMES.dark, to: HERO_THEMES.dark, t: 1 };
+
+  // Hero-scoped event bus (shared with CompanyName) and our subscriptions on it
+  protected events: HeroEventBus;
+  private unsubscribers: Array<() => void> = [];
+
   // Animation state
   private sphereGroups: THREE.Group[] = [];
-  private circleOutlines: THREE.Line[] = [];
+  // One eye/circle outline per sphere and one overlay set per gore, built once and updated in place
+  private circles: CircleOutline[] = [];
+  private goreOverlays = new WeakMap<THREE.Mesh, GoreOverlays>();
+  // Inputs of the last gore reshape; unchanged inputs skip the vertex work entirely (e.g. while idle)
+  private goreShapeKey = { unfold: NaN, twist: NaN, numGores: 0, transition: NaN, gridMode: '', projection: '' };
+  private goreDetail = 1;
+  // GPU unfolding: per-sphere morph uniforms (empty on the CPU path). The gores' CPU positions, used by picking,
+  // balls and SVG export, are only rewritten once the pose settles or when a consumer asks (syncGoreShapes).
+  private gpuMorph = false;
+  private morphUniforms: GoreMorphUniforms | null = null;
+  private goreCpuStale = false;
+  // Per-sphere flat layout; a running cross-fade has a tween (null otherwise)
+  protected projections: GoreProjectionMix[] = [];
+  private projectionTweens: Array<{ elapsed: number; duration: number } | null> = [];
+  // Grid mode cross-fade: the outgoing lattice stays on each gore as a hidden ghost child with its own overlays
+  private gridFade: { from: GridMode; elapsed: number; duration: number; ghosts: Map<THREE.Mesh, { mesh: THREE.Mesh; overlays: GoreOverlays }> } | null = null;
+  private frameStats = new FrameStats();
   private circleOutlinesVisible = true;
   private circleDrawProgress = 1.0;
   private goreDrawProgress = 0.0;
@@ -106,9 +169,8 @@ export class Background {
   private wireframeTransitionDuration = 1.0;
   private wireframeMode = 'none';
 
-  // Animation state machine
-  private animationStep = 'INITIAL_CIRCLES_MOVE';
-  private stepProgress = 0;
+  // Animation timeline (declared phase segments, see buildTimeline())
+  private timeline!: Timeline<AnimationStep>;
   private stepDurations = {
     // Increased so circle-to-bottom alignment is slower and more methodical
     INITIAL_CIRCLES_MOVE: 6.5,
@@ -119,45 +181,90 @@ export class Background {
   };
 
   private unwrappingT = 0;
-  private sphereYs = [4.5, 4.5, 4.5];
+  private sphereYs: number[] = [];
   // Reverse control and helpers
   private reverseEnabled = true; // public toggle via setter to run the reverse half
-  private reverseStartYs: number[] = [4.5, 4.5, 4.5];
+  private reverseStartYs: number[] = [];
 
-  // Configuration
+  // Configuration (see BackgroundOptions)
+  // Gore count: numGores is the target, currentNumGores the meshes per sphere. At rest transitionProgress blends
+  // the slots toward the three-lobe layout (the default logo keeps it at 1); while `transition` runs
+  // (setGoreCount) it is the eased progress of goreCountTween instead, and the resting blend is restored after.
   private numGores = 9;
   private currentNumGores = 9;
-  private sphereConfigs = [
-    { radius: 2.2, colors: [0xff4444, 0xff4444, 0xff4444, 0x44ff44, 0x44ff44, 0x44ff44, 0x4444ff, 0x4444ff, 0x4444ff] },
-    { radius: 1.4, colors: [0xff8888, 0xff8888, 0xff8888, 0x88ff88, 0x88ff88, 0x88ff88, 0x8888ff, 0x8888ff, 0x8888ff] },
-    { radius: 0.75, colors: [0xffcccc, 0xffcccc, 0xffcccc, 0xccffcc, 0xccffcc, 0xccffcc, 0xccccff, 0xccccff, 0xccccff] }
-  ];
+  private sphereConfigs: SphereConfig[] = [];
+  private eyeY = 4.5;
+  private unwrappedBottomY = 2.3;
   private transition = false;
   private transitionProgress = 1;
-  private gridMode = 'rectangular';
+  // Longitude slices of every mesh at both ends of a gore-count change, with the palette index it starts and ends
+  // on. Meshes past `from` split out of the nearest old gore and fade in; meshes past `to` merge into the nearest
+  // new gore, fade out and are removed (balls re-homed) when it lands. `blend` is the resting transitionProgress.
+  private goreCountTween: {
+    from: number;
+    to: number;
+    blend: number;
+    elapsed: number;
+    duration: number;
+    meshes: Array<{ from: GoreSlice; to: GoreSlice; fromIndex: number; toIndex: number }>;
+  } | null = null;
+  protected gridMode: GridMode = 'rectangular';
   // If true, do not create per-gore edge geometries/LineSegments (saves CPU / GPU)
   private skipEdgeCreation = true;
-  // Bright outline toggle while company name types
+  // Center-out gore glow of the settled logo, derived from the UNWRAPPED_IDLE clock (see updateGlowState)
   private glowOutlineActive = false;
-  // Progressive reveal (0..1) tied to typing progress
+  // Progressive reveal (0..1)
   private glowOutlineProgress = 0;
-  // Pulse intensity (0..1) synced with CompanyName pulses
-  private glowPulseIntensity = 0.3;
+  // Pulse intensity (0..1) synced with CompanyName pulses (held at the rest value while capturing)
+  private static readonly GLOW_PULSE_REST = 0.3;
+  private glowPulseIntensity = Background.GLOW_PULSE_REST;
   // Balls
   private balls?: BallsManager;
+  // Every BallsManager of this hero starts from the same seed, so replays match
+  private ballSeed = randomSeed();
+  private ballFixedStep = 0;
+  private defaultBallsEnabled = true;
+  private ballSimulation: BallSimulation = {};
+  private ballData: { source: BallDataSource; binding: BallBinding } | null = null;
+  // Balls added through the public API; they are (re)spawned whenever the unwrapped logo is live
+  private userBalls = new Map<number, Required<BallSpec>>();
+  private nextUserBallId = 1;
+  // BallsManager ids start at 1 too, so the built-in balls take ids above the API range
+  private static readonly DEFAULT_BALL_ID_BASE = 1_000_000;
   private ballsSpawned = false;
-  private pendingBallSpawn = false;
-  // Post-typing glow tween (animate center-out reveal after typing finishes)
-  private glowPostAnimating = false;
-  private glowPostStart = 0;
+  // The glow reveal starts once the company name has typed (NAME_TYPING_MS after the unwrap completes)
+  // and runs for glowPostDurationMs; balls spawn when it is done
   private glowPostDurationMs = 2000;
+  // Seeks replay earlier phases silently: no completion callback and no phase announcements
+  private silent = false;
+
+  // Playback control (see play/pause/seek)
+  private paused = false;
+  private playbackRate = 1;
+
+  // Reduced motion: show the final unwrapped composition, static stage words, frozen balls
+  private reducedMotion = false;
+  // The OS preference at construction is applied on the first frame, once callers have subscribed
+  private reducedMotionPending = false;
+  // Where reduced motion cut the sequence short; turning it off resumes from there
+  private reducedMotionResumeAt: number | null = null;
+  // onAnimationComplete fires once per unwrap the page has not seen yet (seeking back before it re-arms it)
+  private unwrapAnnounced = false;
+
+  // Scroll-driven mode: page scroll through a track element drives the forward sequence
+  private scrollDrive: ScrollProgress | null = null;
+  // Offline capture owns the clock while running (the rAF loop is stopped)
+  private capturing = false;
+  // Set by destroy(); a capture still running then stops without touching the disposed renderer
+  private destroyed = false;
+  private static readonly SCROLL_SMOOTHING = 8; // 1/s, how quickly the animation catches up with scroll
 
   // Stage text during initial eye hold
   private stageTextEl: HTMLDivElement | null = null;
-  private stageText = 'OBSERVE';
-  // New: per-step text init flags
-  private fgTextInit = false;
-  private unwrTextInit = false;
+  private stageText = '';
+  private stageGraphemes: string[] = [];
+  private locale: HeroLocale = LOCALES.en;
+  private stageWords: StageWordSpec[] = [];
 
   // Consistent timing across stage words (typing slower than backspacing)
   private readonly STAGE_TYPE_SEC = 1.2;
@@ -166,31 +273,141 @@ export class Background {
   private readonly STAGE_HOLD_SECOND_SEC = 0.8;  // after STRATEGY typed
   private readonly UNWRAP_HOLD_SEC = 4.5;         // fallback; UNWRAPPING uses computed hold
 
-  // Mouse controls
+  // Pointer controls (mouse, touch, pen)
   private mouseDown = false;
   private mouseX = 0;
   private mouseY = 0;
   private rotationX = 0;
   private rotationY = 0;
+  // Pixels moved since mousedown; a click only picks when the pointer barely moved (not a drag)
+  private dragDistance = 0;
+  private pointers = new Map<number, { x: number; y: number }>();
+  private pinchDistance = 0;
+  private orbitVelocity = new THREE.Vector2(); // rad/s around X (x) and Y (y), carried after release
+  private lastPointerMove = 0;
+  private lastTap = { time: 0, x: 0, y: 0 };
+  private static readonly ORBIT_DAMPING = 4; // 1/s
+  private static readonly CAMERA_Z_MIN = 4;
+  private static readonly CAMERA_Z_MAX = 28;
+  private static readonly DEFAULT_CAMERA_Z = 14;
+
+  // Eased move between camera views (presets)
+  private cameraTween: { from: CameraView; to: CameraView; elapsed: number; duration: number } | null = null;
+  private autoOrbit: Required<AutoOrbitOptions> | null = null;
+  private sinceInteraction = Infinity; // s
+
+  // Gore picking (UNWRAPPED_IDLE only)
+  private raycaster = new THREE.Raycaster();
+  private hoveredGore: THREE.Mesh | null = null;
 
   // Add reference to mission text element
   private missionTextEl: HTMLElement | null = null;
 
-  constructor(container: HTMLElement, onAnimationComplete?: () => void) {
+  // Accessibility: live announcements and the keyboard help overlay
+  private announcer: Announcer;
+  private announcedWord = '';
+  private helpEl: HTMLDivElement | null = null;
+  private static helpCount = 0;
+
+  constructor(container: HTMLElement, onAnimationComplete?: () => void, options: BackgroundOptions = {}) {
+    this.events = options.events ?? new HeroEventBus();
+    this.applyOptions(options);
     this.element = document.createElement('div');
     this.element.className = 'three-background';
     this.setupContainer();
     container.appendChild(this.element);
+    this.announcer = new Announcer(container);
+    this.setupAccessibility();
 
     // Store callback
     this.onAnimationComplete = onAnimationComplete;
 
+    this.timeline = this.buildTimeline();
+    this.placeStageWords();
+    this.timeline.start();
+
     this.initThreeJS();
     this.setupEventListeners();
     this.startAnimation();
 
     // Initialize mission text reference
     this.missionTextEl = document.querySelector('.mission-text');
+
+    // Honor prefers-reduced-motion now and whenever it changes
+    this.unsubscribers.push(onReducedMotionChange(reduced => this.setReducedMotion(reduced)));
+    this.reducedMotionPending = prefersReducedMotion();
+  }
+
+  public setReducedMotion(reduced: boolean): void {
+    this.reducedMotionPending = false;
+    if (reduced === this.reducedMotion) return;
+    this.reducedMotion = reduced;
+    this.balls?.setFrozen(reduced);
+    if (reduced) {
+      this.reducedMotionResumeAt = this.animationStep === 'UNWRAPPED_IDLE' ? null : this.timeline.getTime();
+      this.skipToUnwrapped();
+      return;
+    }
+    this.clearStageText();
+    const resumeAt = this.reducedMotionResumeAt;
+    this.reducedMotionResumeAt = null;
+    // Pick the sequence up where it was cut, unless the logo has been moved on since
+    if (resumeAt !== null && this.animationStep === 'UNWRAPPED_IDLE') this.seek(resumeAt);
+  }
+
+  // Jump straight to the final unwrapped composition (fires onAnimationComplete once it is there)
+  private skipToUnwrapped(): void {
+    if (this.animationStep === 'UNWRAPPED_IDLE') return;
+    this.seek(this.timeline.getSegmentStart('UNWRAPPED_IDLE'));
+    if (this.reducedMotion) this.showStaticStageWords();
+    this.announceUnwrapped();
+  }
+
+  private announceUnwrapped(): void {
+    if (this.silent || this.unwrapAnnounced || !this.onAnimationComplete) return;
+    this.unwrapAnnounced = true;
+    console.log('Unwrap finished, showing company name');
+    this.onAnimationComplete();
+  }
+
+  private applyOptions(options: BackgroundOptions): void {
+    const spheres = options.spheres && options.spheres.length > 0 ? options.spheres : DEFAULT_SPHERES;
+    this.sphereConfigs = spheres.map(s => ({ radius: s.radius, colors: [...s.colors], projection: s.projection }));
+    if (options.numGores !== undefined) {
+      this.numGores = Math.max(1, Math.floor(options.numGores));
+      this.currentNumGores = this.numGores;
+    }
+    if (options.gridMode) this.gridMode = options.gridMode;
+    if (options.eyeY !== undefined) this.eyeY = options.eyeY;
+    if (options.unwrappedBottomY !== undefined) this.unwrappedBottomY = options.unwrappedBottomY;
+    if (options.ballSeed !== undefined) this.ballSeed = options.ballSeed >>> 0;
+    if (options.ballFixedStep !== undefined) this.ballFixedStep = Math.max(0, options.ballFixedStep);
+    if (options.defaultBalls !== undefined) this.defaultBallsEnabled = options.defaultBalls;
+    if (options.ballSimulation) this.ballSimulation = { ...options.ballSimulation };
+    if (options.autoOrbit) this.setAutoOrbit(true, options.autoOrbit === true ? {} : options.autoOrbit);
+    if (options.locale) this.locale = options.locale;
+    if (options.gpuMorph !== undefined) this.gpuMorph = options.gpuMorph;
+    if (options.goreDetail !== undefined) this.goreDetail = Math.max(1, Math.round(options.goreDetail));
+    this.projections = this.sphereConfigs.map(cfg => {
+      const requested = cfg.projection ?? options.projection ?? DEFAULT_GORE_PROJECTION;
+      const id = hasGoreProjection(requested) ? requested : DEFAULT_GORE_PROJECTION;
+      if (id !== requested) console.warn(`Unknown gore projection "${requested}"`);
+      return { from: id, to: id, t: 1 };
+    });
+    this.projectionTweens = this.sphereConfigs.map(() => null);
+    this.stageWords = options.stageWords ? options.stageWords.map(w => ({ ...w })) : this.defaultStageWords();
+    this.sphereYs = this.sphereConfigs.map(() => this.eyeY);
+    this.reverseStartYs = [...this.sphereYs];
+  }
+
+  // Per-gore color; palettes shorter than the gore count repeat. Theme palettes (if any) override and cross-fade.
+  private goreColor(sphereIndex: number, goreIndex: number): number {
+    const cfg = this.sphereConfigs[sphereIndex];
+    const base = cfg.colors.length === 0 ? 0xffffff : cfg.colors[goreIndex % cfg.colors.length];
+    const { from, to, t } = this.themeState;
+    const a = themeGoreColor(from, sphereIndex, goreIndex, base);
+    if (t >= 1) return themeGoreColor(to, sphereIndex, goreIndex, base);
+    return mixColor(a, themeGoreColor(to, sphereIndex, goreIndex, base), t);
   }
 
   // Allow consumers to enable/disable the reverse part of the sequence
@@ -198,6 +415,47 @@ export class Background {
     this.reverseEnabled = enabled;
   }
 
+  // Switch the flat layout of one sphere (or all when `sphere` is omitted), cross-fading over durationSec.
+  // The new layout shows wherever the gores are unwrapped, including mid-animation.
+  public setProjection(projection: string, options: { sphere?: number; durationSec?: number } = {}): void {
+    if (!hasGoreProjection(projection)) {
+      console.warn(`Unknown gore projection "${projection}"`);
+      return;
+    }
+    const duration = Math.max(0, options.durationSec ?? 1.2);
+    this.projections.forEach((mix, si) => {
+      if (options.sphere !== undefined && options.sphere !== si) return;
+      if (mix.to === projection && mix.t >= 1) return;
+      this.projections[si] = { from: mix.t >= 0.5 ? mix.to : mix.from, to: projection, t: duration > 0 ? 0 : 1 };
+      this.projectionTweens[si] = duration > 0 ? { elapsed: 0, duration } : null;
+    });
+    this.refreshGoreLayout();
+  }
+
+  public getProjection(sphere = 0): string | undefined {
+    return this.projections[sphere]?.to;
+  }
+
+  private advanceProjections(dt: number): void {
+    let changed = false;
+    this.projectionTweens.forEach((tween, si) => {
+      if (!tween) return;
+      tween.elapsed += dt;
+      const k = Math.min(1, tween.elapsed / tween.duration);
+      this.projections[si].t = easeInOutCubic(k);
+      if (k >= 1) this.projectionTweens[si] = null;
+      changed = true;
+    });
+    if (changed) this.refreshGoreLayout();
+  }
+
+  // Re-run the layout for the current state after the gore shapes changed outside the timeline
+  private refreshGoreLayout(): void {
+    this.updatePositions(this.currentPlacementProgress);
+    this.balls?.refreshRegions();
+    if (this.fallback) this.updateFallbackLayout();
+  }
+
   // Helical twist configuration (applies only during UNWRAPPING)
   private twistEnabled = true;
   private twistTurns = 0.15; // number of full revolutions at peak twist (sin(pi * t) = 1)
@@ -219,21 +477,34 @@ export class Background {
     // Scene setup
     this.scene = new THREE.Scene();
     this.camera = new THREE.PerspectiveCamera(75, window.innerWidth / window.innerHeight, 0.1, 1000);
-    // Enable WebGL2 for linewidth support (fallback to WebGL1 if not available)
-    const canvas = document.createElement('canvas');
-    const context = (canvas.getContext('webgl2') || canvas.getContext('webgl')) as WebGLRenderingContext | undefined;
-    this.renderer = new THREE.WebGLRenderer({ canvas, context, antialias: true, alpha: true });
-    // Ensure renderer respects renderOrder for transparent objects
-    this.renderer.sortObjects = true;
-
     // Size will be matched to parent hero section via observer/resize
     const parent = this.element.parentElement as HTMLElement | null;
     const w = parent?.clientWidth || window.innerWidth;
     const h = parent?.clientHeight || window.innerHeight;
-    this.renderer.setSize(w, h);
-    this.renderer.shadowMap.enabled = true;
-    this.renderer.shadowMap.type = THREE.PCFSoftShadowMap;
-    this.element.appendChild(this.renderer.domElement);
+
+    // Enable WebGL2 for linewidth support (fallback to WebGL1 if not available)
+    const canvas = document.createElement('canvas');
+    const context = createWebGLContext(canvas);
+    try {
+      if (context) this.renderer = new THREE.WebGLRenderer({ canvas, context, antialias: true, alpha: true });
+    } catch (e) {
+      console.warn('WebGL renderer failed to start', e);
+    }
+    if (this.renderer) {
+      // Ensure renderer respects renderOrder for transparent objects
+      this.renderer.sortObjects = true;
+      this.renderer.setSize(w, h);
+      this.renderer.shadowMap.enabled = true;
+      this.renderer.shadowMap.type = THREE.PCFSoftShadowMap;
+      this.element.appendChild(this.renderer.domElement);
+    } else {
+      // No WebGL: the timeline still runs (stage words, onAnimationComplete), the canvas shows a static layout
+      console.warn('WebGL unavailable, using static hero fallback');
+      this.camera.aspect = w / h;
+      this.camera.updateProjectionMatrix();
+      this.fallback = new FallbackRenderer(this.camera);
+      this.element.appendChild(this.fallback.domElement);
+    }
 
     // Lighting
     const ambientLight = new THREE.AmbientLight(0x404040, 1.2);
@@ -251,49 +522,112 @@ export class Background {
     this.scene.add(fillLight);
 
     // Camera position
-    this.camera.position.set(0, 0, 14);
+    this.camera.position.set(0, 0, Background.DEFAULT_CAMERA_Z);
+
+    // The morph shaders need the WebGL renderer
+    this.gpuMorph = this.gpuMorph && !!this.renderer;
+    if (this.gpuMorph) this.morphUniforms = createGoreMorphUniforms();
 
-    // Initialize sphere groups
-    this.sphereConfigs.forEach(() => {
+    // Initialize sphere groups and their circle outlines
+    this.sphereConfigs.forEach((cfg, si) => {
       const group = new THREE.Group();
       this.sphereGroups.push(group);
       this.scene.add(group);
+      const circle = new CircleOutline(si, this.sphereConfigs.length, cfg.radius);
+      this.scene.add(...circle.lines);
+      this.circles.push(circle);
     });
 
     // Initial setup
     this.updateGores(0);
     this.updatePositions(0);
+    if (this.fallback) {
+      this.fallback.setSize(w, h);
+      this.updateFallbackLayout();
+    }
     // Create stage text overlay (same style as CompanyName)
     this.createStageTextElement();
   }
 
   private setupEventListeners(): void {
-    // Mouse controls
-    const handleMouseDown = (e: MouseEvent) => {
-      this.mouseDown = true;
-      this.mouseX = e.clientX;
-      this.mouseY = e.clientY;
+    // Pointer controls: one pointer orbits (with inertia after release), two pinch-zoom, double tap resets
+    const pinchSpan = () => {
+      const [a, b] = [...this.pointers.values()];
+      return Math.hypot(a.x - b.x, a.y - b.y);
     };
 
-    const handleMouseUp = () => {
-      this.mouseDown = false;
+    const handlePointerDown = (e: PointerEvent) => {
+      this.noteInteraction();
+      this.element.setPointerCapture(e.pointerId);
+      this.pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      if (this.pointers.size === 1) {
+        this.mouseDown = true;
+        this.dragDistance = 0;
+        this.mouseX = e.clientX;
+        this.mouseY = e.clientY;
+        this.orbitVelocity.set(0, 0);
+      } else if (this.pointers.size === 2) {
+        this.pinchDistance = pinchSpan();
+      }
     };
 
-    const handleMouseMove = (e: MouseEvent) => {
-      if (!this.mouseDown) return;
+    const handlePointerMove = (e: PointerEvent) => {
+      if (!this.pointers.has(e.pointerId)) return;
+      this.noteInteraction();
+      this.pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+      if (this.pointers.size >= 2) {
+        const span = pinchSpan();
+        if (this.pinchDistance > 0 && span > 0) this.setCameraZ(this.camera.position.z * (this.pinchDistance / span));
+        this.pinchDistance = span;
+        this.dragDistance = Infinity; // never a tap/click
+        return;
+      }
+
       const dx = e.clientX - this.mouseX;
       const dy = e.clientY - this.mouseY;
-      this.rotationY += dx * 0.01;
-      this.rotationX += dy * 0.01;
-      this.scene.rotation.y = this.rotationY;
-      this.scene.rotation.x = this.rotationX;
+      this.dragDistance += Math.abs(dx) + Math.abs(dy);
+      this.rotateBy(dy * 0.01, dx * 0.01);
+      const now = performance.now();
+      const dtMove = (now - this.lastPointerMove) / 1000;
+      if (dtMove > 0 && dtMove < 0.1) {
+        this.orbitVelocity.lerp(new THREE.Vector2((dy * 0.01) / dtMove, (dx * 0.01) / dtMove), 0.5);
+      }
+      this.lastPointerMove = now;
       this.mouseX = e.clientX;
       this.mouseY = e.clientY;
     };
 
+    const handlePointerUp = (e: PointerEvent) => {
+      if (!this.pointers.delete(e.pointerId)) return;
+      if (this.pointers.size === 1) {
+        // Pinch ended: keep orbiting from the remaining finger without a jump
+        const [rest] = [...this.pointers.values()];
+        this.mouseX = rest.x;
+        this.mouseY = rest.y;
+        this.orbitVelocity.set(0, 0);
+        return;
+      }
+      if (this.pointers.size > 0) return;
+      this.mouseDown = false;
+      // Held still before letting go: no fling
+      if (performance.now() - this.lastPointerMove > 80) this.orbitVelocity.set(0, 0);
+
+      if (e.type === 'pointerup' && this.dragDistance < 10) {
+        const now = performance.now();
+        const near = Math.hypot(e.clientX - this.lastTap.x, e.clientY - this.lastTap.y) < 30;
+        if (now - this.lastTap.time < 300 && near) {
+          this.resetOrbit();
+          this.lastTap.time = 0;
+        } else {
+          this.lastTap = { time: now, x: e.clientX, y: e.clientY };
+        }
+      }
+    };
+
     const handleWheel = (e: WheelEvent) => {
-      this.camera.position.z += e.deltaY * 0.01;
-      this.camera.position.z = Math.max(4, Math.min(28, this.camera.position.z));
+      this.noteInteraction();
+      this.setCameraZ(this.camera.position.z + e.deltaY * 0.01);
     };
 
     const handleResize = () => {
@@ -302,61 +636,65 @@ export class Background {
       const h = parent?.clientHeight || window.innerHeight;
       this.camera.aspect = w / h;
       this.camera.updateProjectionMatrix();
-      this.renderer.setSize(w, h);
+      this.renderer?.setSize(w, h);
+      this.fallback?.setSize(w, h);
     };
 
-    this.element.addEventListener('mousedown', handleMouseDown);
-    document.addEventListener('mouseup', handleMouseUp);
-    document.addEventListener('mousemove', handleMouseMove);
+    // Touches over the canvas drive the scene (one-finger orbit on both axes, pinch zoom) instead of
+    // scrolling or zooming the page
+    this.element.style.touchAction = 'none';
+    this.element.addEventListener('pointerdown', handlePointerDown);
+    this.element.addEventListener('pointermove', handlePointerMove);
+    this.element.addEventListener('pointerup', handlePointerUp);
+    this.element.addEventListener('pointercancel', handlePointerUp);
     this.element.addEventListener('wheel', handleWheel);
     window.addEventListener('resize', handleResize);
 
-    // Company name typing events -> control progressive glow outlines
-    const handleTypingStart = () => {
-      // Do not show glow edges during typing
-      this.glowOutlineActive = false;
-      this.glowOutlineProgress = 0;
-      // No rebuild here; defer to finished
-    };
-    const handleTypingProgress = (e: Event) => {
-      // Track progress but do not light edges yet
-      const detail = (e as CustomEvent).detail || {};
-      this.glowOutlineProgress = Math.max(0, Math.min(1, detail.progress ?? 0));
-      // No rebuild; defer to finished
+    // Gore picking: hover highlight + typed click event
+    const handleHover = (e: MouseEvent) => {
+      if (this.mouseDown) return;
+      this.setHoveredGore(this.pickGore(e.clientX, e.clientY));
     };
-    const handleTypingFinished = () => {
-      // Start the same center-out reveal after typing, with the same speed (2s)
-      this.glowOutlineActive = true;
-      this.glowOutlineProgress = 0;
-      this.glowPostAnimating = true;
-      this.glowPostStart = performance.now();
-      // Defer ball spawn until glow fully revealed
-      this.pendingBallSpawn = true;
-      // Initial rebuild
-      this.updateGores(this.unwrappingT);
+    const handleClick = (e: MouseEvent) => {
+      if (this.dragDistance > 5) return;
+      const gore = this.pickGore(e.clientX, e.clientY);
+      if (gore) this.events.emit('goreClick', this.goreRef(gore));
     };
-    const handleGlow = (e: Event) => {
-      const detail = (e as CustomEvent).detail || {};
-      this.glowPulseIntensity = Math.max(0, Math.min(1, detail.intensity ?? 0.3));
+    this.element.addEventListener('mousemove', handleHover);
+    this.element.addEventListener('mouseleave', () => this.setHoveredGore(null));
+    this.element.addEventListener('click', handleClick);
+
+    // The glow reveal itself follows the timeline; only its pulse comes from the company name
+    const handleGlow = ({ intensity }: { intensity: number }) => {
+      // The name pulses on wall-clock time
+      if (this.capturing) return;
+      this.glowPulseIntensity = Math.max(0, Math.min(1, intensity));
       // no forced rebuild; main loop updates frequently in idle
     };
-    const handleHidden = () => {
-      this.glowOutlineActive = false;
-      this.glowOutlineProgress = 0;
+    const handleTheme = (transition: ThemeTransition) => {
+      this.themeState = transition;
+      this.applyStageTextTheme();
       this.updateGores(this.unwrappingT);
+      this.updateCircleOutlines();
+      this.updateFallbackLayout();
     };
 
-    window.addEventListener('companyNameTypingStart', handleTypingStart as EventListener);
-    window.addEventListener('companyNameTypingProgress', handleTypingProgress as EventListener);
-    window.addEventListener('companyNameTypingFinished', handleTypingFinished as EventListener);
-    window.addEventListener('companyNameGlow', handleGlow as EventListener);
-    window.addEventListener('companyNameHidden', handleHidden as EventListener);
+    this.unsubscribers.push(
+      this.events.on('themeChange', handleTheme),
+      this.events.on('companyNameGlow', handleGlow)
+    );
   }
 
   // Create the 3 requested balls on specific sphere/gore indices
   private spawnDefaultBalls(): void {
     if (this.ballsSpawned) return;
-    if (!this.balls) this.balls = new BallsManager(this.scene);
+    // Nothing would draw them without WebGL
+    if (this.fallback) return;
+    if (!this.balls) this.balls = new BallsManager(this.scene, { seed: this.ballSeed, fixedStep: this.ballFixedStep });
+    this.balls.setFrozen(this.reducedMotion);
+    this.balls.setSimulation(this.ballSimulation);
+    // Balls are laid out on the CPU copy of the gore shapes
+    if (this.goreCpuStale) this.syncGoreShapes();
 
     // Changed mapping: sphere 0 -> gore 3, sphere 1 -> gore 1, sphere 2 -> gore 2
     const gore03 = (this.sphereGroups[0]?.children[1] as THREE.Mesh | undefined) ?? (this.sphereGroups[0]?.children[0] as THREE.Mesh | undefined);
@@ -364,13 +702,303 @@ export class Background {
     const gore22 = (this.sphereGroups[2]?.children[2] as THREE.Mesh | undefined) ?? (this.sphereGroups[2]?.children[0] as THREE.Mesh | undefined);
 
     const glowing_white = 0xffffff;
-    if (gore03) this.balls.addBallForGore(gore03, glowing_white);
-    if (gore11) this.balls.addBallForGore(gore11, glowing_white);
-    if (gore22) this.balls.addBallForGore(gore22, glowing_white);
+    if (this.defaultBallsEnabled) {
+      let id = Background.DEFAULT_BALL_ID_BASE;
+      if (gore03) this.balls.addBallForGore(gore03, glowing_white, { id: id++ });
+      if (gore11) this.balls.addBallForGore(gore11, glowing_white, { id: id++ });
+      if (gore22) this.balls.addBallForGore(gore22, glowing_white, { id: id++ });
+    }
+    this.userBalls.forEach((spec, id) => this.spawnUserBall(id, spec));
+    if (this.ballData) this.balls.bindData(this.ballData.source, this.ballData.binding);
 
     this.ballsSpawned = true;
   }
 
+  // Focusable canvas with keyboard controls, an accessible name and a shortcut overlay
+  private setupAccessibility(): void {
+    const helpId = `hero-help-${++Background.helpCount}`;
+    this.element.tabIndex = 0;
+    this.element.setAttribute('role', 'application');
+    this.element.setAttribute('aria-roledescription', this.locale.strings.logoRoleDescription);
+    this.element.setAttribute('aria-label', this.locale.strings.logoLabel);
+    this.element.setAttribute('aria-describedby', helpId);
+
+    const help = document.createElement('div');
+    help.id = helpId;
+    help.className = 'hero-help';
+    help.hidden = true;
+    help.lang = this.locale.code;
+    help.dir = this.locale.dir;
+    const title = document.createElement('p');
+    title.className = 'hero-help-title';
+    title.textContent = this.locale.strings.keyboardHelpTitle;
+    const list = document.createElement('dl');
+    this.locale.strings.keyboardHelp.forEach(([keys, action]) => {
+      const dt = document.createElement('dt');
+      dt.textContent = keys;
+      const dd = document.createElement('dd');
+      dd.textContent = action;
+      list.append(dt, dd);
+    });
+    help.append(title, list);
+    (this.element.parentElement || document.body).appendChild(help);
+    this.helpEl = help;
+
+    const ROTATE_STEP = 0.1;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      switch (e.key) {
+        case 'ArrowLeft': this.noteInteraction(); this.rotateBy(0, -ROTATE_STEP); break;
+        case 'ArrowRight': this.noteInteraction(); this.rotateBy(0, ROTATE_STEP); break;
+        case 'ArrowUp': this.noteInteraction(); this.rotateBy(-ROTATE_STEP, 0); break;
+        case 'ArrowDown': this.noteInteraction(); this.rotateBy(ROTATE_STEP, 0); break;
+        case '+': case '=': this.noteInteraction(); this.setCameraZ(this.camera.position.z - 1); break;
+        case '-': case '_': this.noteInteraction(); this.setCameraZ(this.camera.position.z + 1); break;
+        case ' ':
+          if (this.paused) this.play(); else this.pause();
+          this.announcer.say('phase', this.paused ? this.locale.strings.paused : this.locale.strings.playing);
+          break;
+        case 'Home': this.resetOrbit(); break;
+        case '?': this.setHelpVisible(!!this.helpEl?.hidden); break;
+        case 'Escape':
+          if (!this.helpEl || this.helpEl.hidden) return;
+          this.setHelpVisible(false);
+          break;
+        default: return;
+      }
+      e.preventDefault();
+    };
+    this.element.addEventListener('keydown', handleKeyDown);
+    // Keyboard users get the overlay as soon as they land on the canvas
+    this.element.addEventListener('focus', () => {
+      if (this.element.matches(':focus-visible')) this.setHelpVisible(true);
+    });
+    this.element.addEventListener('blur', () => this.setHelpVisible(false));
+  }
+
+  private setHelpVisible(visible: boolean): void {
+    if (this.helpEl) this.helpEl.hidden = !visible;
+  }
+
+  private rotateBy(dx: number, dy: number): void {
+    this.rotationX += dx;
+    this.rotationY += dy;
+    this.scene.rotation.x = this.rotationX;
+    this.scene.rotation.y = this.rotationY;
+  }
+
+  private setCameraZ(z: number): void {
+    this.camera.position.z = THREE.MathUtils.clamp(z, Background.CAMERA_Z_MIN, Background.CAMERA_Z_MAX);
+  }
+
+  // Back to the default orientation and distance
+  private resetOrbit(): void {
+    this.setCameraPreset('front', 0.6);
+  }
+
+  // Ease to a named view (durationSec 0 jumps)
+  public setCameraPreset(name: CameraPresetName, durationSec = 1.2): void {
+    this.orbitVelocity.set(0, 0);
+    const to = CAMERA_PRESETS[name];
+    // Unwind accumulated spins so the move takes the short way round
+    this.rotationX = wrapAngle(this.rotationX);
+    this.rotationY = wrapAngle(this.rotationY);
+    const from: CameraView = { rotationX: this.rotationX, rotationY: this.rotationY, distance: this.camera.position.z };
+    this.cameraTween = { from, to, elapsed: 0, duration: Math.max(0, durationSec) };
+    if (durationSec <= 0) this.advanceCameraTween(0);
+  }
+
+  public getCameraView(): CameraView {
+    return { rotationX: this.rotationX, rotationY: this.rotationY, distance: this.camera.position.z };
+  }
+
+  public setAutoOrbit(enabled: boolean, options: AutoOrbitOptions = {}): void {
+    this.autoOrbit = enabled
+      ? { speed: options.speed ?? 0.12, resumeAfterSec: options.resumeAfterSec ?? 4 }
+      : null;
+  }
+
+  // User input wins over presets and pauses auto-orbit for a while
+  private noteInteraction(): void {
+    this.cameraTween = null;
+    this.sinceInteraction = 0;
+  }
+
+  private advanceCameraTween(dt: number): void {
+    const tween = this.cameraTween;
+    if (!tween) return;
+    tween.elapsed += dt;
+    const t = tween.duration > 0 ? Math.min(1, tween.elapsed / tween.duration) : 1;
+    const k = easeInOutCubic(t);
+    this.rotationX = lerp(tween.from.rotationX, tween.to.rotationX, k);
+    this.rotationY = lerp(tween.from.rotationY, tween.to.rotationY, k);
+    this.scene.rotation.x = this.rotationX;
+    this.scene.rotation.y = this.rotationY;
+    this.setCameraZ(lerp(tween.from.distance, tween.to.distance, k));
+    if (t >= 1) this.cameraTween = null;
+  }
+
+  private applyAutoOrbit(dt: number): void {
+    this.sinceInteraction += dt;
+    if (!this.autoOrbit || this.reducedMotion || this.mouseDown || this.cameraTween) return;
+    const step = this.animationStep;
+    if (step !== 'UNWRAPPED_IDLE' && step !== 'EYE_IDLE') return;
+    if (this.sinceInteraction < this.autoOrbit.resumeAfterSec || this.orbitVelocity.lengthSq() > 1e-4) return;
+    this.rotateBy(0, this.autoOrbit.speed * dt);
+  }
+
+  // Keep spinning after a fling, slowing down exponentially
+  private applyOrbitInertia(dt: number): void {
+    if (this.mouseDown || this.orbitVelocity.lengthSq() < 1e-6) return;
+    this.rotateBy(this.orbitVelocity.x * dt, this.orbitVelocity.y * dt);
+    this.orbitVelocity.multiplyScalar(Math.exp(-dt * Background.ORBIT_DAMPING));
+  }
+
+  // Topmost gore under the pointer; only the settled unwrapped logo is pickable
+  private pickGore(clientX: number, clientY: number): THREE.Mesh | null {
+    if (this.animationStep !== 'UNWRAPPED_IDLE' || !this.renderer) return null;
+    const rect = this.renderer.domElement.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return null;
+    const ndc = new THREE.Vector2(
+      ((clientX - rect.left) / rect.width) * 2 - 1,
+      -((clientY - rect.top) / rect.height) * 2 + 1
+    );
+    this.raycaster.setFromCamera(ndc, this.camera);
+    if (this.goreCpuStale) this.syncGoreShapes();
+    const gores = this.sphereGroups.flatMap(g => g.children.filter(c => c.userData.isGore));
+    const hits = this.raycaster.intersectObjects(gores, false);
+    if (hits.length === 0) return null;
+    // The flat layers overlap; smaller (inner) spheres are drawn on top
+    return hits.reduce((best, hit) => (hit.object.userData.sphereIndex > best.object.userData.sphereIndex ? hit : best)).object as THREE.Mesh;
+  }
+
+  private goreRef(gore: THREE.Mesh): GoreRef {
+    return { sphereIndex: gore.userData.sphereIndex as number, goreIndex: gore.parent ? gore.parent.children.indexOf(gore) : -1 };
+  }
+
+  // Additive outline (same shader as the name glow) on the hovered gore; kept across overlay rebuilds
+  private setHoveredGore(gore: THREE.Mesh | null): void {
+    if (gore === this.hoveredGore) return;
+    if (this.hoveredGore) {
+      const old = this.hoveredGore.children.filter(c => c.userData.hoverHighlight);
+      old.forEach(c => {
+        this.hoveredGore?.remove(c);
+        const line = c as THREE.LineSegments;
+        line.geometry.dispose();
+        (line.material as THREE.Material).dispose();
+      });
+    }
+    this.hoveredGore = gore;
+    this.element.style.cursor = gore ? 'pointer' : '';
+    if (gore) {
+      const edges = new THREE.EdgesGeometry(gore.geometry as THREE.BufferGeometry, 180);
+      const highlight = createGlowLine(edges, this.themeState.theme.glowInner, 1.0, 1.0, 1.0);
+      highlight.renderOrder = 9996;
+      highlight.userData.hoverHighlight = true;
+      highlight.userData.keepOverlay = true;
+      gore.add(highlight);
+    }
+    this.events.emit('goreHover', gore ? this.goreRef(gore) : null);
+  }
+
+  private goreMesh(sphere: number, gore: number): THREE.Mesh | undefined {
+    const mesh = this.sphereGroups[sphere]?.children[gore] as THREE.Mesh | undefined;
+    return mesh?.userData.isGore ? mesh : undefined;
+  }
+
+  private spawnUserBall(id: number, spec: Required<BallSpec>): void {
+    const gore = this.goreMesh(spec.sphere, spec.gore);
+    if (!this.balls || !gore) return;
+    this.balls.addBallForGore(gore, spec.color, { id, size: spec.size, speed: spec.speed });
+  }
+
+  // Public ball API. Balls live on the unwrapped logo: ones added earlier appear once it settles,
+  // and all of them come back after a wrap/unwrap cycle. Returns the ball id, or null for an unknown gore.
+  public addBall(spec: BallSpec): number | null {
+    if (!this.sphereConfigs[spec.sphere] || spec.gore < 0 || spec.gore >= this.currentNumGores) return null;
+    const id = this.nextUserBallId++;
+    const full: Required<BallSpec> = { color: 0xffffff, size: 1, speed: 1, ...spec };
+    this.userBalls.set(id, full);
+    if (this.ballsSpawned) this.spawnUserBall(id, full);
+    return id;
+  }
+
+  // Built-in balls can be removed too, until they respawn with the next unwrap
+  public removeBall(id: number): boolean {
+    const known = this.userBalls.delete(id);
+    const removed = this.balls?.removeBall(id) ?? false;
+    return known || removed;
+  }
+
+  public updateBall(id: number, changes: { color?: number; size?: number; speed?: number }): boolean {
+    const spec = this.userBalls.get(id);
+    if (spec) Object.assign(spec, changes);
+    let live = false;
+    if (this.balls) {
+      if (changes.color !== undefined) live = this.balls.setBallColor(id, changes.color) || live;
+      live = this.balls.setBallStyle(id, { size: changes.size, speed: changes.speed }) || live;
+    }
+    return !!spec || live;
+  }
+
+  // Drive balls from a data feed (array, stub function or JSON URL). The binding outlives wrap/unwrap
+  // cycles: every time the logo settles the feed is reloaded and its balls fade in.
+  public bindBallData(source: BallDataSource, options: BallDataOptions = {}): void {
+    const binding: BallBinding = {
+      goreFor: (category) => {
+        const slot = options.categories?.[category] ?? this.hashedGoreSlot(category);
+        return this.goreMesh(slot.sphere, slot.gore);
+      },
+      color: options.color,
+      sizeRange: options.sizeRange,
+      glowRange: options.glowRange,
+      pollMs: options.pollMs,
+    };
+    this.ballData = { source, binding };
+    if (this.balls && this.ballsSpawned) this.balls.bindData(source, binding);
+  }
+
+  public unbindBallData(): void {
+    this.ballData = null;
+    this.balls?.unbindData();
+  }
+
+  private hashedGoreSlot(category: string): { sphere: number; gore: number } {
+    // FNV-1a
+    let h = 0x811c9dc5;
+    for (let i = 0; i < category.length; i++) {
+      h ^= category.charCodeAt(i);
+      h = Math.imul(h, 0x01000193) >>> 0;
+    }
+    const slot = h % (this.sphereConfigs.length * this.currentNumGores);
+    return { sphere: Math.floor(slot / this.currentNumGores), gore: slot % this.currentNumGores };
+  }
+
+  // Merge simulation settings; applies to live balls and to every later respawn
+  public setBallSimulation(sim: BallSimulation): void {
+    this.ballSimulation = { ...this.ballSimulation, ...sim };
+    this.balls?.setSimulation(this.ballSimulation);
+  }
+
+  // Live balls with their current gore-local and world positions
+  public getBalls(): BallState[] {
+    if (!this.balls) return [];
+    this.scene.updateMatrixWorld();
+    return this.balls.getBalls().map(b => ({
+      id: b.id,
+      sphere: b.gore.userData.sphereIndex as number,
+      gore: b.gore.parent ? b.gore.parent.children.indexOf(b.gore) : -1,
+      color: b.color,
+      size: b.size,
+      speed: b.speed,
+      local: b.local,
+      world: b.world,
+    }));
+  }
+
+  // Reshape and restyle the gores for this frame. Meshes and overlays are only (re)built when the gore count
+  // changes; otherwise just vertex positions (or, with gpuMorph, the pose uniforms), material colors/opacities
+  // and uniforms are written.
   private updateGores(unfoldProgress: number): void {
     // Twist amount over time: 0 -> 1 -> 0 across unwrapping (twist then untwist)
     const twistAmount =
@@ -378,359 +1006,379 @@ export class Background {
         ? Math.sin(Math.PI * THREE.MathUtils.clamp(unfoldProgress, 0, 1))
         : 0;
 
+    let rebuilt = false;
+    this.sphereGroups.forEach((group, si) => {
+      if (group.children.length !== this.currentNumGores) {
+        // Ghosts belong to the gores being replaced
+        this.endGridFade();
+        this.buildGores(si);
+        rebuilt = true;
+      }
+    });
+
+    const key = this.goreShapeKey;
+    const projection = this.projections.map(m => `${m.from}>${m.to}@${m.t}`).join('|');
+    const latticeChanged = rebuilt || key.numGores !== this.currentNumGores ||
+      key.transition !== this.transitionProgress || key.gridMode !== this.gridMode || key.projection !== projection;
+    const poseChanged = key.unfold !== unfoldProgress || key.twist !== twistAmount;
+    key.unfold = unfoldProgress;
+    key.twist = twistAmount;
+    key.numGores = this.currentNumGores;
+    key.transition = this.transitionProgress;
+    key.gridMode = this.gridMode;
+    key.projection = projection;
+
+    if (this.morphUniforms) {
+      // Pose uniforms are shared by all gores
+      const pose = this.morphUniforms;
+      pose.uUnfold.value = unfoldProgress;
+      pose.uTwist.value = twistAmount;
+      pose.uTwistTurns.value = this.twistTurns;
+      if (latticeChanged) this.forEachGore((gore, i, si) => this.shapeGoreTargets(gore, i, si));
+      if (latticeChanged || poseChanged) this.goreCpuStale = true;
+      const atRest = twistAmount === 0 && (unfoldProgress === 0 || unfoldProgress === 1);
+      if (atRest && this.goreCpuStale) this.syncGoreShapes();
+    } else if (latticeChanged || poseChanged) {
+      this.syncGoreShapes();
+    }
+    if (this.gridFade && (latticeChanged || poseChanged)) this.shapeGridGhosts(latticeChanged);
+
+    const eased = easeInOutCubic(this.currentPlacementProgress);
     for (let si = 0; si < this.sphereConfigs.length; si++) {
       const cfg = this.sphereConfigs[si];
-      const goreColors = cfg.colors;
-      const sphereRadius = cfg.radius;
       const group = this.sphereGroups[si];
-
-      // If we don't yet have the expected number of gore Meshes, clear and create them.
-      if (group.children.length !== this.currentNumGores) {
-        // Clear existing children & dispose resources
-        while (group.children.length > 0) {
-          const child = group.children[0];
-          group.remove(child);
-          if ((child as THREE.Mesh).geometry) (child as THREE.Mesh).geometry.dispose();
-          if ((child as THREE.Mesh).material) {
-            const material = (child as THREE.Mesh).material;
-            if (Array.isArray(material)) {
-              material.forEach(mat => mat.dispose());
-            } else {
-              material.dispose();
-            }
-          }
+      for (let i = 0; i < this.currentNumGores; i++) {
+        const gore = group.children[i] as THREE.Mesh;
+        const style = this.goreOverlayStyle(si, i);
+        const ghost = this.gridFade?.ghosts.get(gore);
+        if (this.gridFade && ghost) {
+          const k = easeInOutCubic(Math.min(1, this.gridFade.elapsed / this.gridFade.duration));
+          const alpha = style.alpha ?? 1;
+          ghost.overlays.apply({ ...style, alpha: alpha * (1 - k) });
+          style.alpha = alpha * k;
         }
+        this.goreOverlays.get(gore)?.apply(style);
 
-        // Create gore Meshes (initial construction)
-        for (let i = 0; i < this.currentNumGores; i++) {
-          const goreGeometry = createGoreGeometry(
-            i,
-            unfoldProgress,
-            sphereRadius,
-            this.currentNumGores,
-            this.transitionProgress,
-            this.gridMode as any
-          );
-          // Apply helical twist deformation for this frame (only during UNWRAPPING)
-          if (twistAmount > 0) this.applyHelicalTwist(goreGeometry, twistAmount);
-
-          let gore: THREE.Mesh;
-
-          const baseColor = goreColors[i];
-
-          if (this.wireframeMode === 'none' && !this.wireframeTransitioning) {
-            // Use MeshBasicMaterial so both sides render at same brightness (no lighting variation)
-            gore = new THREE.Mesh(goreGeometry, new THREE.MeshBasicMaterial({ transparent: true, opacity: 0, side: THREE.DoubleSide }));
-          }
-          else if (this.wireframeTransitioning) {
-            // Base mesh is invisible during transition; use MeshBasicMaterial for consistent brightness if shown
-            gore = new THREE.Mesh(
-              goreGeometry,
-              new THREE.MeshBasicMaterial({ transparent: true, opacity: 0, side: THREE.DoubleSide })
-            );
-            const target = this.wireframeTransitionTarget;
-            const t = THREE.MathUtils.clamp(this.wireframeTransitionProgress, 0, 1);
-
-            const edgesGeometry = createGoreEdges(goreGeometry, this.glowOutlineActive ? false : this.skipEdgeCreation);
-            if (edgesGeometry && edgesGeometry.attributes && edgesGeometry.attributes.position) {
-              const vCount = edgesGeometry.attributes.position.count;
-              const drawCount = Math.max(0, Math.floor((vCount * this.goreDrawProgress) / 2) * 2);
-              edgesGeometry.setDrawRange(0, drawCount);
-            }
-
-            let edgeOpacity = 0;
-            if (target === 'edges') edgeOpacity = t;
-            else if (target === 'wireframe') edgeOpacity = 1 - t;
-            else if (target === 'none') edgeOpacity = 1 - t;
-
-            const edgesMaterial = new THREE.LineBasicMaterial({
-              color: baseColor,
-              transparent: true,
-              opacity: edgeOpacity * 1.0,
-              blending: THREE.AdditiveBlending,
-              depthTest: false,
-              depthWrite: false
-            });
-            if (edgesGeometry) {
-              const edges = new THREE.LineSegments(edgesGeometry, edgesMaterial);
-              edges.renderOrder = 9990;
-              gore.add(edges);
-            }
-
-            if (target === 'wireframe' || (target === 'edges' && (this.wireframeMode === 'wireframe' || this.wireframeMode === 'transitioning_to_wireframe'))) {
-              let wireframeOpacity = 0;
-              if (target === 'wireframe') wireframeOpacity = 0.6 * t;
-              else if (target === 'edges' && (this.wireframeMode === 'wireframe' || this.wireframeMode === 'transitioning_to_wireframe')) wireframeOpacity = 0.6 * (1 - t);
-
-              const wm = new THREE.MeshBasicMaterial({
-                color: baseColor,
-                transparent: true,
-                opacity: wireframeOpacity,
-                wireframe: true,
-                side: THREE.DoubleSide,
-                // keep colors intact (avoid whitening) but avoid depth-write so overlapping edges don't occlude
-                blending: THREE.NormalBlending,
-                depthWrite: false,
-              });
-              const wf = new THREE.Mesh(goreGeometry.clone(), wm);
-              gore.add(wf);
-            }
-          }
-          else if (this.wireframeMode === 'wireframe') {
-            const goreMaterial = new THREE.MeshBasicMaterial({
-              color: baseColor,
-              transparent: true,
-              opacity: 0.6,
-              wireframe: true,
-              side: THREE.DoubleSide,
-              // Use normal blending so wireframe color is preserved (prevent bright white wash)
-              blending: THREE.NormalBlending,
-              depthWrite: false,
-            });
-            gore = new THREE.Mesh(goreGeometry, goreMaterial);
-
-            // Center-out glow overlay while typing/persistent glow
-            if (this.glowOutlineActive) {
-              const reveal = easeInOutSine(this.glowOutlineProgress);
-              const pulse = this.glowPulseIntensity;
-              const glowEdgesGeom = createGoreEdges(goreGeometry, false);
-              if (glowEdgesGeom) {
-                const glowA = createGlowLine(glowEdgesGeom, 0xffffff, 1.0, reveal, pulse);
-                gore.add(glowA);
-                const glowB = createGlowLine(glowEdgesGeom.clone(), 0x9edfff, 0.35, reveal, pulse);
-                glowB.renderOrder = 9994;
-                gore.add(glowB);
-              }
-            }
-          }
-          else {
-            // Filled gore + edges without shimmer
-            const goreMaterial = new THREE.MeshBasicMaterial({
-              color: baseColor,
-              transparent: true,
-              opacity: 0.18,
-              wireframe: false,
-              side: THREE.DoubleSide,
-              // Use normal blending to preserve per-gore color while preventing depth-write occlusion.
-              // Glow/edges remain additive for the highlight effect.
-              blending: THREE.NormalBlending,
-              depthWrite: false,
-            });
-            gore = new THREE.Mesh(goreGeometry, goreMaterial);
-
-            const edgesGeometry = createGoreEdges(goreGeometry, this.glowOutlineActive ? false : this.skipEdgeCreation);
-            if (edgesGeometry && edgesGeometry.attributes && edgesGeometry.attributes.position) {
-              const vCount = edgesGeometry.attributes.position.count;
-              const drawCount = Math.max(0, Math.floor((vCount * this.goreDrawProgress) / 2) * 2);
-              edgesGeometry.setDrawRange(0, drawCount);
-            }
-            const edgesMaterial = new THREE.LineBasicMaterial({
-              color: baseColor,
-              transparent: true,
-              opacity: 1.0,
-              blending: THREE.AdditiveBlending,
-              depthTest: false,
-              depthWrite: false
-            });
-            if (edgesGeometry) {
-              const edges = new THREE.LineSegments(edgesGeometry, edgesMaterial);
-              edges.renderOrder = 9990;
-              gore.add(edges);
-            }
-          }
+        gore.position.set(0, this.sphereYs[si] - cfg.radius, 0);
+        gore.quaternion.setFromAxisAngle(Z_AXIS, this.gorePlacement(si, i) * eased);
+      }
+    }
+  }
 
-          // Add gore and tag with metadata for BallsManager
-          group.add(gore);
-          gore.userData.isGore = true;
-          gore.userData.sphereIndex = si;
-          gore.userData.sphereRadius = sphereRadius;
-        }
-      } else {
-        // Reuse existing gore Meshes: update their geometry positions in-place when possible
-        for (let i = 0; i < this.currentNumGores; i++) {
-          const gore = group.children[i] as THREE.Mesh;
-          if (!gore) continue;
-
-          // Ensure gore has metadata
-          gore.userData.isGore = true;
-          gore.userData.sphereIndex = si;
-          gore.userData.sphereRadius = sphereRadius;
-
-          // build a temporary geometry for the new shape
-          let newGeom = createGoreGeometry(
-            i,
-            unfoldProgress,
-            sphereRadius,
-            this.currentNumGores,
-            this.transitionProgress,
-            this.gridMode as any
-          );
-          // Apply helical twist deformation before copying into the live geometry
-          if (twistAmount > 0) this.applyHelicalTwist(newGeom, twistAmount);
-
-          const oldGeom = gore.geometry as THREE.BufferGeometry;
-          const newPosAttr = newGeom.attributes.position as THREE.BufferAttribute;
-
-          if (oldGeom && oldGeom.attributes && oldGeom.attributes.position && (oldGeom.attributes.position.count === newPosAttr.count)) {
-            // copy position data into existing geometry
-            const oldPosArray = oldGeom.attributes.position.array as Float32Array;
-            oldPosArray.set(newPosAttr.array as Float32Array);
-            (oldGeom.attributes.position as THREE.BufferAttribute).needsUpdate = true;
-            oldGeom.computeVertexNormals();
-            // dispose the temporary geometry (we only needed its positions)
-            newGeom.dispose();
-            newGeom = undefined as any;
-          } else {
-            // fallback: replace geometry object (keeps Mesh instance)
-            if (oldGeom) {
-              try { oldGeom.dispose(); } catch (e) { /* ignore */ }
-            }
-            gore.geometry = newGeom;
-            newGeom = undefined as any;
-          }
+  // Rotation of gore (si, i) about the bottom pivot once fully unwrapped, from the sphere's projection
+  private gorePlacement(si: number, i: number): number {
+    const { index, count, transition } = this.goreSlot(i);
+    const angleStep = lerp(Math.PI * 2 / count, Math.PI * 2 / 3, transition);
+    return gorePlacementAngle(this.projections[si], { goreIndex: index, angleStep, sphereRadius: this.sphereConfigs[si].radius, gridMode: this.gridMode });
+  }
 
-          // Remove and rebuild overlays without removing balls (children tagged userData.goreBall)
-          // Old:
-          // while (gore.children.length > 0) { const c = gore.children[0]; gore.remove(c); dispose... }
-          // New: selective removal
-          const toRemove: THREE.Object3D[] = [];
-          gore.children.forEach(c => {
-            const ud = (c as any).userData || {};
-            if (!(ud.goreBall || ud.proximityGlow || ud.keepOverlay)) toRemove.push(c);
-          });
-          toRemove.forEach(c => {
-            gore.remove(c);
-            const m = c as any as THREE.Mesh;
-            if (m.geometry) m.geometry.dispose();
-            const mat = (m as any).material;
-            if (mat) { if (Array.isArray(mat)) mat.forEach((mm: any) => mm.dispose()); else mat.dispose(); }
-          });
+  // Gore i as createGoreGeometry arguments: its resting slot, or while the gore count changes the slice between
+  // the two layouts, as a fractional slot of a gore count matching that slice's width
+  private goreSlot(i: number): { index: number; count: number; transition: number } {
+    const mesh = this.goreCountTween?.meshes[i];
+    if (!mesh) return { index: i, count: this.currentNumGores, transition: this.transitionProgress };
+    const k = this.transitionProgress;
+    const span = lerp(mesh.from.span, mesh.to.span, k);
+    const center = sliceCenter(mesh.from) + wrapAngle(sliceCenter(mesh.to) - sliceCenter(mesh.from)) * k;
+    return { index: (center - span / 2) / span, count: Math.PI * 2 / span, transition: 0 };
+  }
 
-          // Add overlays consistent with current mode
-          if (this.wireframeTransitioning) {
-            const target = this.wireframeTransitionTarget;
-            const t = THREE.MathUtils.clamp(this.wireframeTransitionProgress, 0, 1);
-            const edgesGeometry = createGoreEdges(gore.geometry as THREE.BufferGeometry, this.glowOutlineActive ? false : this.skipEdgeCreation);
-            if (edgesGeometry && edgesGeometry.attributes && edgesGeometry.attributes.position) {
-              const vCount = edgesGeometry.attributes.position.count;
-              const drawCount = Math.max(0, Math.floor((vCount * this.goreDrawProgress) / 2) * 2);
-              edgesGeometry.setDrawRange(0, drawCount);
-            }
-            let edgeOpacity = 0;
-            if (target === 'edges') edgeOpacity = t;
-            else if (target === 'wireframe') edgeOpacity = 1 - t;
-            else if (target === 'none') edgeOpacity = 1 - t;
-
-            const baseColor = goreColors[i];
-            const edgesMaterial = new THREE.LineBasicMaterial({
-              color: baseColor,
-              transparent: true,
-              opacity: edgeOpacity * 1.0,
-              blending: THREE.AdditiveBlending,
-              depthTest: false,
-              depthWrite: false
-            });
-            if (edgesGeometry) {
-              const edges = new THREE.LineSegments(edgesGeometry, edgesMaterial);
-              edges.renderOrder = 9990;
-              gore.add(edges);
-            }
-
-            if (target === 'wireframe' || (target === 'edges' && (this.wireframeMode === 'wireframe' || this.wireframeMode === 'transitioning_to_wireframe'))) {
-              let wireframeOpacity = 0;
-              if (target === 'wireframe') wireframeOpacity = 0.6 * t;
-              else if (target === 'edges' && (this.wireframeMode === 'wireframe' || this.wireframeMode === 'transitioning_to_wireframe')) wireframeOpacity = 0.6 * (1 - t);
-
-              const wm = new THREE.MeshBasicMaterial({
-                color: baseColor,
-                transparent: true,
-                opacity: wireframeOpacity,
-                wireframe: true,
-                side: THREE.DoubleSide
-                // keep color fidelity here as well
-                , blending: THREE.NormalBlending
-                , depthWrite: false
-              });
-              const wf = new THREE.Mesh((gore.geometry as THREE.BufferGeometry).clone(), wm);
-              gore.add(wf);
-            }
-          } else if (this.wireframeMode === 'wireframe') {
-            const baseColor = goreColors[i];
-            const wm = new THREE.MeshBasicMaterial({
-              color: baseColor,
-              transparent: true,
-              opacity: 0.6,
-              wireframe: true,
-              side: THREE.DoubleSide,
-              // Use normal blending to preserve per-gore color while preventing depth-write occlusion.
-              // Glow/edges remain additive for the highlight effect.
-              blending: THREE.NormalBlending,
-              depthWrite: false,
-            });
-            const wf = new THREE.Mesh((gore.geometry as THREE.BufferGeometry).clone(), wm);
-            gore.add(wf);
-
-            if (this.glowOutlineActive) {
-              const reveal = easeInOutSine(this.glowOutlineProgress);
-              const pulse = this.glowPulseIntensity;
-              const glowEdgesGeom = createGoreEdges(gore.geometry as THREE.BufferGeometry, false);
-              if (glowEdgesGeom) {
-                const glowA = createGlowLine(glowEdgesGeom, 0xffffff, 1.0, reveal, pulse);
-                gore.add(glowA);
-                const glowB = createGlowLine(glowEdgesGeom.clone(), 0x9edfff, 0.35, reveal, pulse);
-                glowB.renderOrder = 9994;
-                gore.add(glowB);
-              }
-            }
-          } else {
-            const edgesGeometry = createGoreEdges(gore.geometry as THREE.BufferGeometry, this.glowOutlineActive ? false : this.skipEdgeCreation);
-            if (edgesGeometry && edgesGeometry.attributes && edgesGeometry.attributes.position) {
-              const vCount = edgesGeometry.attributes.position.count;
-              const drawCount = Math.max(0, Math.floor((vCount * this.goreDrawProgress) / 2) * 2);
-              edgesGeometry.setDrawRange(0, drawCount);
-            }
-            const baseColor = goreColors[i];
-            const edgesMaterial = new THREE.LineBasicMaterial({
-              color: baseColor,
-              transparent: true,
-              opacity: 1.0,
-              blending: THREE.AdditiveBlending,
-              depthTest: false,
-              depthWrite: false
-            });
-            if (edgesGeometry) {
-              const edges = new THREE.LineSegments(edgesGeometry, edgesMaterial);
-              edges.renderOrder = 9990;
-              gore.add(edges);
-            }
-          }
+  // Palette color of gore i, blended between its old and new palette slots while the gore count changes
+  private displayGoreColor(si: number, i: number): number {
+    const mesh = this.goreCountTween?.meshes[i];
+    if (!mesh) return this.goreColor(si, i);
+    return mixColor(this.goreColor(si, mesh.fromIndex), this.goreColor(si, mesh.toIndex), this.transitionProgress);
+  }
 
-          // Ensure reused/replaced gore materials also use additive blending + no depthWrite
-          // to avoid folding artifacts when geometry overlaps.
-          try {
-            const mat = gore.material as any;
-            if (mat && !Array.isArray(mat)) {
-              if (mat.isMeshBasicMaterial || mat.constructor?.name === 'MeshBasicMaterial') {
-                // preserve the material's color (avoid whitening) while preventing depth-write occlusion
-                mat.blending = THREE.NormalBlending;
-                mat.depthWrite = false;
-              }
-            } else if (Array.isArray(mat)) {
-              mat.forEach((m: any) => { if (m) { m.blending = THREE.NormalBlending; m.depthWrite = false; } });
-            }
-          } catch (e) { /* non-critical */ }
-
-          // apply transforms to reused gore
-          const angleStep = lerp(Math.PI * 2 / this.currentNumGores, Math.PI * 2 / 3, this.transitionProgress);
-          const centerAngle = (i + 0.5) * angleStep;
-          const eased = easeInOutCubic(this.currentPlacementProgress);
-          const angle = centerAngle * eased;
-          const q = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 0, 1), angle);
-          gore.position.set(0, this.sphereYs[si] - cfg.radius, 0);
-          gore.quaternion.copy(q);
-        }
+  // Overlay alpha of gore i: meshes that split off fade in, meshes that merge away fade out
+  private goreCountAlpha(i: number): number {
+    const tween = this.goreCountTween;
+    if (!tween) return 1;
+    if (i >= tween.from) return this.transitionProgress;
+    if (i >= tween.to) return 1 - this.transitionProgress;
+    return 1;
+  }
+
+  private forEachGore(fn: (gore: THREE.Mesh, goreIndex: number, sphereIndex: number) => void): void {
+    this.sphereGroups.forEach((group, si) => {
+      group.children.forEach((child, i) => fn(child as THREE.Mesh, i, si));
+    });
+  }
+
+  // Bring the gores' CPU positions (and overlay copies) to the pose of the last updateGores call
+  private syncGoreShapes(): void {
+    const { unfold, twist } = this.goreShapeKey;
+    this.forEachGore((gore, i, si) => {
+      this.shapeGore(gore, i, si, unfold, twist);
+      this.goreOverlays.get(gore)?.refresh();
+    });
+    this.goreCpuStale = false;
+  }
+
+  // (Re)create the gore meshes of one sphere. The base mesh stays invisible (it is the picking surface and
+  // the parent of balls and overlays); everything on screen is drawn by its GoreOverlays.
+  private buildGores(si: number): void {
+    const group = this.sphereGroups[si];
+    while (group.children.length > 0) {
+      const gore = group.children[0] as THREE.Mesh;
+      group.remove(gore);
+      this.disposeGore(gore);
+    }
+    for (let i = 0; i < this.currentNumGores; i++) this.addGore(si, i);
+  }
+
+  private addGore(si: number, i: number): void {
+    const cfg = this.sphereConfigs[si];
+    const { index, count, transition } = this.goreSlot(i);
+    const geometry = createGoreGeometry(index, this.unwrappingT, cfg.radius, count, transition, this.gridMode, this.goreDetail, this.projections[si]);
+    // Use MeshBasicMaterial so both sides render at same brightness (no lighting variation)
+    const gore = new THREE.Mesh(geometry, new THREE.MeshBasicMaterial({
+      transparent: true,
+      opacity: 0,
+      side: THREE.DoubleSide,
+      blending: THREE.NormalBlending,
+      depthWrite: false,
+    }));
+    // Tag with metadata for BallsManager and picking
+    gore.userData.isGore = true;
+    gore.userData.sphereIndex = si;
+    gore.userData.sphereRadius = cfg.radius;
+    this.sphereGroups[si].add(gore);
+    this.goreOverlays.set(gore, new GoreOverlays(gore, this.morphUniforms ?? undefined));
+  }
+
+  private disposeGore(gore: THREE.Mesh): void {
+    this.goreOverlays.get(gore)?.dispose();
+    this.goreOverlays.delete(gore);
+    gore.geometry.dispose();
+    const material = gore.material;
+    if (Array.isArray(material)) material.forEach(mat => mat.dispose());
+    else material.dispose();
+  }
+
+  // Write this frame's vertex positions into the gore's existing buffer; only a lattice change (grid mode)
+  // allocates a new geometry
+  private shapeGore(gore: THREE.Mesh, goreIndex: number, si: number, unfoldProgress: number, twistAmount: number): void {
+    const radius = this.sphereConfigs[si].radius;
+    let geometry = gore.geometry as THREE.BufferGeometry;
+    const pos = geometry.getAttribute('position') as THREE.BufferAttribute;
+    const { index, count, transition } = this.goreSlot(goreIndex);
+    if (!this.hasCurrentLattice(geometry)) {
+      geometry.dispose();
+      geometry = createGoreGeometry(index, unfoldProgress, radius, count, transition, this.gridMode, this.goreDetail, this.projections[si]);
+      gore.geometry = geometry;
+      if (this.morphUniforms) this.shapeGoreTargets(gore, goreIndex, si);
+    } else {
+      writeGorePositions(pos.array as Float32Array, index, unfoldProgress, radius, count, transition, this.gridMode, this.goreDetail, this.projections[si]);
+      pos.needsUpdate = true;
+      // Recomputed lazily by raycasting and frustum culling
+      geometry.boundingSphere = null;
+      geometry.boundingBox = null;
+    }
+    // Apply helical twist deformation for this frame (only during UNWRAPPING)
+    if (twistAmount > 0) this.applyHelicalTwist(geometry, twistAmount);
+  }
+
+  // gpuMorph: write the sphere/flat end shapes the vertex shader blends between
+  private shapeGoreTargets(gore: THREE.Mesh, goreIndex: number, si: number): void {
+    const radius = this.sphereConfigs[si].radius;
+    let geometry = gore.geometry as THREE.BufferGeometry;
+    const { index, count, transition } = this.goreSlot(goreIndex);
+    if (!this.hasCurrentLattice(geometry)) {
+      geometry.dispose();
+      const { unfold } = this.goreShapeKey;
+      geometry = createGoreGeometry(index, unfold, radius, count, transition, this.gridMode, this.goreDetail, this.projections[si]);
+      gore.geometry = geometry;
+    }
+    writeGoreMorphTargets(geometry, index, radius, count, transition, this.gridMode, this.goreDetail, this.projections[si]);
+    // Bounds come from the (possibly stale) CPU positions
+    gore.frustumCulled = false;
+    this.goreOverlays.get(gore)?.refresh();
+  }
+
+  // Switch the lattice (GridMode), cross-fading from the current one over durationSec (0 switches at once).
+  // Balls stay on their gores; their movement regions follow the new gore shapes right away.
+  public setGridMode(mode: GridMode, durationSec = 0.8): void {
+    if (mode === this.gridMode) return;
+    this.endGridFade();
+    const from = this.gridMode;
+    this.gridMode = mode;
+    if (durationSec > 0 && this.renderer) {
+      const ghosts = new Map<THREE.Mesh, { mesh: THREE.Mesh; overlays: GoreOverlays }>();
+      this.forEachGore(gore => {
+        // The clone keeps the outgoing lattice in the current shape; the mesh itself never draws
+        const mesh = new THREE.Mesh((gore.geometry as THREE.BufferGeometry).clone(), new THREE.MeshBasicMaterial({ visible: false }));
+        gore.add(mesh);
+        ghosts.set(gore, { mesh, overlays: new GoreOverlays(mesh, this.morphUniforms ?? undefined) });
+      });
+      this.gridFade = { from, elapsed: 0, duration: durationSec, ghosts };
+    }
+    this.refreshGoreLayout();
+  }
+
+  public getGridMode(): GridMode {
+    return this.gridMode;
+  }
+
+  // Animate to `count` gores per sphere, evenly spread (e.g. 9 -> 3 -> 12), over durationSec (0 switches at once).
+  // New gores split off their nearest neighbour and old ones merge into theirs; colors blend between palette
+  // slots (sphereConfigs[].colors) and balls of merged gores move to the gore they merged into.
+  public setGoreCount(count: number, durationSec = 1.5): void {
+    this.endGoreCountTween();
+    const to = Math.max(1, Math.floor(count));
+    const from = this.currentNumGores;
+    if (to === from) return;
+    // Ghosts belong to the current gores
+    this.endGridFade();
+
+    const blend = this.transitionProgress;
+    const fromSlices = Array.from({ length: from }, (_, i) => restingSlice(i, from, blend));
+    const toSlices = Array.from({ length: to }, (_, i) => restingSlice(i, to, blend));
+    const nearest = (slices: GoreSlice[], angle: number) => {
+      let best = 0;
+      slices.forEach((slice, i) => {
+        if (Math.abs(wrapAngle(sliceCenter(slice) - angle)) < Math.abs(wrapAngle(sliceCenter(slices[best]) - angle))) best = i;
+      });
+      return best;
+    };
+    const meshes = Array.from({ length: Math.max(from, to) }, (_, i) => {
+      const fromIndex = i < from ? i : nearest(fromSlices, sliceCenter(toSlices[i]));
+      const toIndex = i < to ? i : nearest(toSlices, sliceCenter(fromSlices[i]));
+      return { from: fromSlices[fromIndex], to: toSlices[toIndex], fromIndex, toIndex };
+    });
+
+    this.numGores = to;
+    this.currentNumGores = meshes.length;
+    this.transition = true;
+    this.transitionProgress = 0;
+    this.goreCountTween = { from, to, blend, elapsed: 0, duration: Math.max(0, durationSec), meshes };
+    // Split-off gores join the existing meshes, so balls and overlays of those stay put
+    this.sphereGroups.forEach((group, si) => {
+      for (let i = group.children.length; i < meshes.length; i++) this.addGore(si, i);
+    });
+    if (durationSec > 0 && this.renderer) this.refreshGoreLayout();
+    else this.endGoreCountTween();
+  }
+
+  public getGoreCount(): number {
+    return this.numGores;
+  }
+
+  private advanceGoreCount(dt: number): void {
+    const tween = this.goreCountTween;
+    if (!tween) return;
+    tween.elapsed += dt;
+    if (tween.elapsed >= tween.duration) {
+      this.endGoreCountTween();
+      return;
+    }
+    this.transitionProgress = easeInOutCubic(tween.elapsed / tween.duration);
+    this.refreshGoreLayout();
+  }
+
+  // Land a gore-count change: merged gores hand their balls to their targets and are removed
+  private endGoreCountTween(): void {
+    const tween = this.goreCountTween;
+    if (!tween) return;
+    this.transitionProgress = 1;
+    this.refreshGoreLayout();
+    this.sphereGroups.forEach(group => {
+      for (let i = group.children.length - 1; i >= tween.to; i--) {
+        const gore = group.children[i] as THREE.Mesh;
+        this.balls?.rehomeBalls(gore, group.children[tween.meshes[i].toIndex] as THREE.Mesh);
+        group.remove(gore);
+        this.disposeGore(gore);
+      }
+    });
+    this.userBalls.forEach(spec => {
+      if (spec.gore >= tween.to) spec.gore = tween.meshes[spec.gore].toIndex;
+    });
+    this.goreCountTween = null;
+    this.currentNumGores = tween.to;
+    this.transition = false;
+    this.transitionProgress = tween.blend;
+    this.refreshGoreLayout();
+  }
+
+  private advanceGridFade(dt: number): void {
+    if (!this.gridFade) return;
+    this.gridFade.elapsed += dt;
+    if (this.gridFade.elapsed >= this.gridFade.duration) this.endGridFade();
+    this.updatePositions(this.currentPlacementProgress);
+  }
+
+  private endGridFade(): void {
+    if (!this.gridFade) return;
+    this.gridFade.ghosts.forEach(({ mesh, overlays }, gore) => {
+      overlays.dispose();
+      gore.remove(mesh);
+      mesh.geometry.dispose();
+      (mesh.material as THREE.Material).dispose();
+    });
+    this.gridFade = null;
+  }
+
+  // Keep the outgoing lattice of a grid-mode cross-fade in the gores' current shape
+  private shapeGridGhosts(latticeChanged: boolean): void {
+    const fade = this.gridFade!;
+    const { unfold, twist } = this.goreShapeKey;
+    this.forEachGore((gore, i, si) => {
+      const ghost = fade.ghosts.get(gore);
+      if (!ghost) return;
+      const geometry = ghost.mesh.geometry as THREE.BufferGeometry;
+      const radius = this.sphereConfigs[si].radius;
+      const { index, count, transition } = this.goreSlot(i);
+      if (this.morphUniforms) {
+        if (!latticeChanged) return;
+        writeGoreMorphTargets(geometry, index, radius, count, transition, fade.from, this.goreDetail, this.projections[si]);
+      } else {
+        const pos = geometry.getAttribute('position') as THREE.BufferAttribute;
+        writeGorePositions(pos.array as Float32Array, index, unfold, radius, count, transition, fade.from, this.goreDetail, this.projections[si]);
+        pos.needsUpdate = true;
+        if (twist > 0) this.applyHelicalTwist(geometry, twist);
       }
+      ghost.overlays.refresh();
+    });
+  }
+
+  private hasCurrentLattice(geometry: THREE.BufferGeometry): boolean {
+    const { latitudeSteps, longitudeSteps } = goreGridSize(this.gridMode, this.goreDetail);
+    return geometry.userData.gridMode === this.gridMode &&
+      geometry.getAttribute('position').count === (latitudeSteps + 1) * (longitudeSteps + 1);
+  }
+
+  // What the overlays of gore (si, i) show in the current wireframe mode / transition
+  private goreOverlayStyle(si: number, i: number): GoreOverlayStyle {
+    const style: GoreOverlayStyle = {
+      color: this.displayGoreColor(si, i),
+      edgeOpacity: 0,
+      edgeDrawProgress: this.goreDrawProgress,
+      wireOpacity: 0,
+      glow: null,
+      alpha: this.goreCountAlpha(i),
+    };
+    const edgesEnabled = this.glowOutlineActive || !this.skipEdgeCreation;
+    if (this.wireframeTransitioning) {
+      const target = this.wireframeTransitionTarget;
+      const t = THREE.MathUtils.clamp(this.wireframeTransitionProgress, 0, 1);
+      const fromWireframe = this.wireframeMode === 'wireframe' || this.wireframeMode === 'transitioning_to_wireframe';
+      if (edgesEnabled) {
+        if (target === 'edges') style.edgeOpacity = t;
+        else if (target === 'wireframe' || target === 'none') style.edgeOpacity = 1 - t;
+      }
+      if (target === 'wireframe') style.wireOpacity = 0.6 * t;
+      else if (target === 'edges' && fromWireframe) style.wireOpacity = 0.6 * (1 - t);
+    } else if (this.wireframeMode === 'wireframe') {
+      style.wireOpacity = 0.6;
+      // Center-out glow overlay while typing/persistent glow
+      if (this.glowOutlineActive) {
+        const theme = this.themeState.theme;
+        style.glow = { reveal: easeInOutSine(this.glowOutlineProgress), pulse: this.glowPulseIntensity, core: theme.core, outer: theme.glowOuter };
+      }
+    } else if (edgesEnabled) {
+      style.edgeOpacity = 1;
     }
+    return style;
   }
 
   private updateWireframeTransition(dt: number): void {
@@ -763,366 +1411,280 @@ export class Background {
         let centerY = this.sphereYs[si];
         if (this.unwrappingT > 0) {
           // Align all sphere bottoms to the same level during unwrapping
-          const targetBottom = 2.3; // the lowest bottom position
+          const targetBottom = this.unwrappedBottomY; // the lowest bottom position
           const targetCenterY = targetBottom + cfg.radius;
           centerY = lerp(this.sphereYs[si], targetCenterY, this.unwrappingT);
         }
         gore.position.set(0, centerY - cfg.radius, 0);
-        gore.quaternion.set(0, 0, 0, 1);
-
-        const angleStep = lerp(Math.PI * 2 / this.currentNumGores, Math.PI * 2 / 3, this.transitionProgress);
-        const centerAngle = (i + 0.5) * angleStep;
-        const angle = centerAngle * easeInOutCubic(progress);
 
-        const q = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 0, 1), angle);
-        gore.quaternion.copy(q);
+        const angle = this.gorePlacement(si, i) * easeInOutCubic(progress);
+        gore.quaternion.setFromAxisAngle(Z_AXIS, angle);
       });
     }
 
-    this.createCircleOutlines();
+    this.updateCircleOutlines();
   }
 
-  private createCircleOutlines(): void {
-    // Remove existing circle outlines
-    this.circleOutlines.forEach(circle => {
-      this.scene.remove(circle);
-      if (circle.geometry) circle.geometry.dispose();
-      if (circle.material) {
-        const material = circle.material as any;
-        if (Array.isArray(material)) {
-          material.forEach((mat: any) => mat.dispose());
-        } else {
-          material.dispose();
-        }
-      }
-    });
-    this.circleOutlines.length = 0;
-
-    if (!this.circleOutlinesVisible) return;
-
-    if (this.unwrappingT > 0.1 && this.animationStep !== 'INITIAL_CIRCLES_MOVE' && this.animationStep !== 'DEFORMING_GORES') return;
+  private circlePalette(): CirclePalette {
+    const theme = this.themeState.theme;
+    return { core: theme.core, innerGlow: theme.glowInner, outerGlow: theme.glowOuter, ultraGlow: theme.haloUltra, superGlow: theme.haloSuper };
+  }
 
-    for (let si = 0; si < this.sphereConfigs.length; si++) {
+  private updateCircleOutlines(): void {
+    const hidden = !this.circleOutlinesVisible ||
+      (this.unwrappingT > 0.1 && this.animationStep !== 'INITIAL_CIRCLES_MOVE' && this.animationStep !== 'DEFORMING_GORES');
+    const palette = this.circlePalette();
+    this.circles.forEach((circle, si) => {
+      if (hidden) {
+        circle.setVisible(false);
+        return;
+      }
       const cfg = this.sphereConfigs[si];
       let circleY = this.sphereYs[si];
       if (this.unwrappingT > 0) {
-        const targetBottom = 2.3;
+        const targetBottom = this.unwrappedBottomY;
         const targetCenterY = targetBottom + cfg.radius;
         circleY = lerp(this.sphereYs[si], targetCenterY, this.unwrappingT);
       }
-
-      const parts = createCircleOutline(
-        si,
-        circleY,
-        cfg.radius,
-        this.eyeToCircleProgress,
-        this.circleDrawProgress,
-        this.unwrappingT
-      );
-
-      // Add core line to scene and tracking array (single line, not array)
-      this.scene.add(parts.core);
-      this.circleOutlines.push(parts.core);
-      this.scene.add(parts.innerGlow, parts.outerGlow, parts.ultraGlow, parts.superGlow);
-      this.circleOutlines.push(parts.innerGlow, parts.outerGlow, parts.ultraGlow, parts.superGlow);
-    }
+      circle.update(circleY, this.eyeToCircleProgress, this.circleDrawProgress, palette);
+    });
   }
 
   // Public triggers to control the new manual phases
   public startWrap(): void {
     if (this.animationStep !== 'UNWRAPPED_IDLE') return;
-    this.animationStep = 'WRAPPING';
-    this.stepProgress = 0;
-    this.reverseStartYs = [...this.sphereYs];
-    // Also clear pending balls
-    this.pendingBallSpawn = false;
-    if (this.balls) { this.balls.destroy(); this.balls = undefined; this.ballsSpawned = false; }
+    // Reduced motion: land on the eye without animating the wrap
+    if (this.reducedMotion) { this.seek(this.timeline.getSegmentStart('EYE_IDLE')); return; }
+    this.timeline.goto('WRAPPING');
   }
 
   public startUnwrap(): void {
     if (this.animationStep !== 'EYE_IDLE') return;
-    // reset state to run the forward flow again
-    this.eyeToCircleProgress = 0;
-    this.circleDrawProgress = 1.0;
-    this.goreDrawProgress = 0.0;
-    this.wireframeMode = 'none';
-    this.wireframeTransitioning = false;
-    this.wireframeTransitionProgress = 0;
-    this.unwrappingT = 0;
-    this.sphereYs = [4.5, 4.5, 4.5];
-    this.animationStep = 'INITIAL_CIRCLES_MOVE';
-    this.stepProgress = 0;
+    if (this.reducedMotion) { this.skipToUnwrapped(); return; }
+    this.timeline.goto('INITIAL_CIRCLES_MOVE');
   }
 
-  private startAnimation(): void {
-    let last = performance.now();
+  // Playback API: the forward and reverse phases form one scrubbable sequence (idle holds are zero-length)
+  public play(): void {
+    this.paused = false;
+  }
 
-    const animate = (now: number) => {
-      const dt = (now - last) / 1000;
-      last = now;
+  public pause(): void {
+    this.paused = true;
+  }
 
-      this.stepProgress += dt;
-
-      switch (this.animationStep) {
-        case 'INITIAL_CIRCLES_MOVE': {
-          // Hold eye, type "RESEARCH", hold, then morph while backspacing (all in seconds)
-          const sp = this.stepProgress; // seconds into this step
-          const total = this.stepDurations.INITIAL_CIRCLES_MOVE; // now longer
-          const typeSec = this.STAGE_TYPE_SEC;
-          const holdSec = this.STAGE_HOLD_FIRST_SEC;
-          const morphSec = 1.0; // keep morph speed
-          // movement window (now larger because total increased)
-          const yMoveSec = Math.max(0, total - (typeSec + holdSec + morphSec));
-
-          if (sp < typeSec) {
-            // Eye held + typing over typeSec
-            this.eyeToCircleProgress = 0;
-            this.sphereYs = [4.5, 4.5, 4.5];
-            this.setStageTextTypingElapsed(sp, typeSec);
-          } else if (sp < typeSec + holdSec) {
-            // Eye held + full word shown
-            this.eyeToCircleProgress = 0;
-            this.sphereYs = [4.5, 4.5, 4.5];
-            this.setStageTextTyping(1);
-          } else if (sp < typeSec + holdSec + morphSec) {
-            // Morph eye->circle while backspacing (backspace faster than morph)
-            const m = (sp - typeSec - holdSec) / morphSec;
-            this.eyeToCircleProgress = m;
-            this.sphereYs = [4.5, 4.5, 4.5];
-            const eb = sp - typeSec - holdSec; // elapsed into backspace window
-            this.setStageTextBackspacingElapsed(eb, this.STAGE_BACK_SEC);
-          } else {
-            // Circles formed; move Y positions over remaining time
-            this.eyeToCircleProgress = 1;
-            this.clearStageText();
-            const rem = sp - (typeSec + holdSec + morphSec);
-            // use eased progress so movement is smooth and methodical
-            const t3 = yMoveSec > 0 ? THREE.MathUtils.clamp(rem / yMoveSec, 0, 1) : 1;
-            const tE = easeInOutCubic(t3);
-
-            const rLarge = this.sphereConfigs[0].radius;
-            const rMed = this.sphereConfigs[1].radius;
-            const rSmall = this.sphereConfigs[2].radius;
-            const largeCenter = 4.5;
-
-            const smallAlignsToMediumCenter = largeCenter + (rSmall - rMed);
-            const mediumAlignsToLargeCenter = largeCenter + (rMed - rLarge);
-            const smallAlignsToLargeCenter = largeCenter + (rSmall - rLarge);
-
-            // apply eased progress for both halves for a slower, more deliberate motion
-            if (tE < 0.5) {
-              const a = tE / 0.5;
-              this.sphereYs[0] = largeCenter;
-              this.sphereYs[1] = largeCenter;
-              this.sphereYs[2] = lerp(largeCenter, smallAlignsToMediumCenter, a);
-            } else {
-              const b = (tE - 0.5) / 0.5;
-              this.sphereYs[0] = largeCenter;
-              this.sphereYs[1] = lerp(largeCenter, mediumAlignsToLargeCenter, b);
-              this.sphereYs[2] = lerp(smallAlignsToMediumCenter, smallAlignsToLargeCenter, b);
-            }
-          }
-          this.updatePositions(0);
-          if (sp >= total) {
-            this.animationStep = 'FORMING_GORES';
-            this.stepProgress = 0;
-            this.goreDrawProgress = 0;
-            this.circleDrawProgress = 1;
-            this.wireframeMode = 'none';
-            this.wireframeTransitionTarget = 'wireframe';
-            this.wireframeTransitioning = true;
-            this.wireframeTransitionProgress = 0;
-            this.unwrappingT = 0;
-            // reset per-step text init
-            this.fgTextInit = false;
-          }
-          break;
-        }
+  public isPaused(): boolean {
+    return this.paused;
+  }
 
-        case 'FORMING_GORES': {
-          // Type and hold "DISCOVER" before gore drawing; then draw gores while backspacing
-          if (!this.fgTextInit) { this.stageText = 'DISCOVER'; this.fgTextInit = true; }
-          const sp = this.stepProgress;                // seconds
-          const typeSec = this.STAGE_TYPE_SEC;
-          const holdSec = this.STAGE_HOLD_SECOND_SEC;
-          const goreDur = this.stepDurations.FORMING_GORES; // keep draw speed (2s)
-
-          if (sp < typeSec) {
-            this.setStageTextTypingElapsed(sp, typeSec);
-            this.goreDrawProgress = 0;
-            this.circleDrawProgress = 1;
-            this.wireframeTransitionTarget = 'wireframe';
-            this.wireframeTransitioning = true;
-            this.wireframeTransitionProgress = 0;
-            this.unwrappingT = 0;
-            this.currentPlacementProgress = 0;
-            this.updateGores(0);
-            this.createCircleOutlines();
-          } else if (sp < typeSec + holdSec) {
-            this.setStageTextTyping(1);
-            this.goreDrawProgress = 0;
-            this.circleDrawProgress = 1;
-            this.wireframeTransitionTarget = 'wireframe';
-            this.wireframeTransitioning = true;
-            this.wireframeTransitionProgress = 0;
-            this.unwrappingT = 0;
-            this.currentPlacementProgress = 0;
-            this.updateGores(0);
-          } else {
-            const tg = Math.min(1, (sp - typeSec - holdSec) / goreDur);
-            this.goreDrawProgress = tg;
-            this.circleDrawProgress = 1 - tg;
-            this.createCircleOutlines();
-            this.wireframeTransitionTarget = 'wireframe';
-            this.wireframeTransitioning = true;
-            this.wireframeTransitionProgress = tg;
-            this.unwrappingT = 0;
-            this.currentPlacementProgress = 0;
-            this.updateGores(0);
-            // Backspace STRATEGY at uniform faster speed (independent of gore draw fraction)
-            const eb = sp - typeSec - holdSec;
-            this.setStageTextBackspacingElapsed(eb, this.STAGE_BACK_SEC);
-
-            if (tg >= 1) {
-              this.wireframeMode = 'wireframe';
-              this.wireframeTransitioning = false;
-              this.wireframeTransitionProgress = 1;
-              this.goreDrawProgress = 1;
-              this.circleDrawProgress = 0;
-              this.unwrappingT = 0;
-              this.updateGores(0);
-              this.animationStep = 'UNWRAPPING';
-              this.stepProgress = 0;
-              // prepare next stage word
-              this.unwrTextInit = false;
-              this.clearStageText();
-            }
-          }
-          break;
-        }
+  public setPlaybackRate(rate: number): void {
+    this.playbackRate = Math.max(0, rate);
+  }
 
-        case 'UNWRAPPING': {
-          if (!this.unwrTextInit) { this.stageText = 'TRANSFORM'; this.unwrTextInit = true; }
-          // Keep geometry unwrapping on original 8s timeline
-          this.unwrappingT = Math.min(1, this.stepProgress / this.stepDurations.UNWRAPPING);
-          if (this.wireframeMode !== 'wireframe') {
-            this.wireframeMode = 'wireframe';
-            this.wireframeTransitioning = false;
-          }
+  public getDuration(): number {
+    return this.timeline.getDuration();
+  }
 
-          // Text timeline: type (uniform speed) -> hold (computed to match inter-word gap) -> backspace (uniform speed)
-          const sp2 = this.stepProgress; // seconds
-          const typeSec2 = this.STAGE_TYPE_SEC;
-          const holdSec2 = this.getUnwrapHoldToMatchGap();   // compute so gap to CompanyName matches earlier gaps
-          const backSec2 = this.STAGE_BACK_SEC;
-
-          if (sp2 < typeSec2) {
-            this.setStageTextTypingElapsed(sp2, typeSec2);
-          } else if (sp2 < typeSec2 + holdSec2) {
-            this.setStageTextTyping(1);
-          } else if (sp2 < typeSec2 + holdSec2 + backSec2) {
-            const eb = sp2 - typeSec2 - holdSec2;
-            this.setStageTextBackspacingElapsed(eb, backSec2);
-          } else {
-            this.clearStageText();
-          }
+  public getCurrentTime(): number {
+    return this.timeline.getTime();
+  }
 
-          this.updatePositions(this.unwrappingT);
-          if (this.unwrappingT >= 1) {
-            // REMOVE ALL THE REBUILDING - just pause the animation state
-            this.unwrappingT = 1;
-            // Don't change goreDrawProgress or circleDrawProgress
-            // Don't force wireframe mode changes
-            // Don't call updateGores() or updatePositions() again
-
-            if (this.onAnimationComplete) {
-              console.log('Unwrap finished, showing company name');
-              this.onAnimationComplete();
-            }
-            this.animationStep = 'UNWRAPPED_IDLE';
-            this.stepProgress = 0;
-            if (this.glowOutlineActive && this.glowOutlineProgress >= 1 && (this.pendingBallSpawn || !this.ballsSpawned)) {
-              this.spawnDefaultBalls();
-              this.pendingBallSpawn = false;
-            }
-          }
+  // Jump to any moment of the sequence. Earlier phases are replayed silently from a reset of everything that
+  // lives outside the timeline (glow, balls, hover, mission text), so the frame only depends on `seconds`;
+  // the page is then told where it landed (heroSeek) to show or hide the name.
+  public seek(seconds: number): void {
+    this.replayTo(seconds);
+    if (!this.silent) this.announceSeek();
+    this.renderFrame();
+  }
 
-          // Update mission text opacity to fade in simultaneously with edges
-          if (this.missionTextEl) {
-            this.missionTextEl.style.opacity = this.unwrappingT.toString();
-          }
+  // The silent part of seek(): reset off-timeline state and replay up to `seconds`, without rendering
+  private replayTo(seconds: number): void {
+    this.setHoveredGore(null);
+    if (this.balls) {
+      this.balls.destroy();
+      this.balls = undefined;
+      this.ballsSpawned = false;
+    }
+    this.updateGlowState(null);
+    if (this.missionTextEl) this.missionTextEl.style.opacity = '';
+    const silent = this.silent;
+    this.silent = true;
+    try {
+      this.timeline.seek(seconds);
+    } finally {
+      this.silent = silent;
+    }
+  }
 
-          break;
-        }
+  private announceSeek(): void {
+    const unwrapped = this.timeline.getTime() >= this.timeline.getSegmentStart('UNWRAPPED_IDLE');
+    // The page hides the name before the unwrap, so completion is due again when it is reached
+    if (!unwrapped) this.unwrapAnnounced = false;
+    this.events.emit('heroSeek', { unwrapped });
+    this.announcer.say('phase', this.locale.strings.phaseLabels[this.animationStep]);
+  }
 
-        case 'UNWRAPPED_IDLE':
-          // Continue updating glow effects even while idle
-          if (this.glowOutlineActive) {
-            // Update glow pulse and reveal effects
-            this.updateGores(this.unwrappingT);
-
-            // Handle pending ball spawn after glow fully reveals
-            if (this.glowOutlineProgress >= 1 && this.pendingBallSpawn && !this.ballsSpawned) {
-              this.spawnDefaultBalls();
-              this.pendingBallSpawn = false;
-            }
-          }
-          break;
+  // Glow of the settled logo `idleElapsed` seconds into UNWRAPPED_IDLE (null: not settled, no glow):
+  // it reveals center-out once the name has typed, or at once with reduced motion
+  private updateGlowState(idleElapsed: number | null): void {
+    if (idleElapsed === null) {
+      this.glowOutlineActive = false;
+      this.glowOutlineProgress = 0;
+      return;
+    }
+    const revealSec = idleElapsed - NAME_TYPING_MS / 1000;
+    this.glowOutlineActive = this.reducedMotion || revealSec >= 0;
+    this.glowOutlineProgress = this.reducedMotion ? 1 : THREE.MathUtils.clamp(revealSec * 1000 / this.glowPostDurationMs, 0, 1);
+  }
 
-        case 'WRAPPING':
-          this.unwrappingT = 1 - Math.min(1, this.stepProgress / this.stepDurations.WRAPPING);
-          if (this.wireframeMode !== 'wireframe') {
-            this.wireframeMode = 'wireframe';
-            this.wireframeTransitioning = false;
-          }
-          this.updatePositions(this.unwrappingT);
-          if (this.unwrappingT <= 0) {
-            this.unwrappingT = 0;
-            this.updateGores(0);
-            this.animationStep = 'DEFORMING_GORES';
-            this.stepProgress = 0;
-            this.wireframeTransitionTarget = 'edges';
-            this.wireframeTransitioning = true;
-            this.wireframeTransitionProgress = 0;
-            this.wireframeMode = 'wireframe';
-            this.reverseStartYs = [...this.sphereYs];
-          }
-          break;
+  // Let scroll position over `track` control the unfold (null returns to the fixed clock).
+  // Scroll maps onto the forward sequence (intro through UNWRAPPING) in both directions; scrolling back up
+  // rewinds it, so WRAPPING and DEFORMING_GORES are not played while scroll drives.
+  public setScrollDriven(track: HTMLElement | null): void {
+    if (this.scrollDrive) { this.scrollDrive.destroy(); this.scrollDrive = null; }
+    if (track) this.scrollDrive = new ScrollProgress(track);
+  }
 
-        case 'DEFORMING_GORES': {
-          // Simplified and fixed reverse: draw circles back in and morph from circle -> eye
-          const t = Math.min(1, this.stepProgress / this.stepDurations.DEFORMING_GORES);
-          this.circleDrawProgress = t;            // outlines draw in
-          this.eyeToCircleProgress = 1 - t;       // 1 -> 0 (circle -> eye)
-          // Move centers back to neutral level smoothly
-          const targetY = 4.5;
-          this.sphereYs[0] = lerp(this.reverseStartYs[0], targetY, t);
-          this.sphereYs[1] = lerp(this.reverseStartYs[1], targetY, t);
-          this.sphereYs[2] = lerp(this.reverseStartYs[2], targetY, t);
-
-          // Transition wireframe to edges during first half, then edges fade slightly
-          if (this.wireframeMode !== 'edges' || this.wireframeTransitioning) {
-            this.wireframeTransitioning = true;
-            this.wireframeTransitionTarget = 'edges';
-            this.wireframeTransitionProgress = t;
-          }
+  // Returns true when scroll handled the timeline this frame. Once scrolled to the end, UNWRAPPED_IDLE runs on
+  // the clock (glow, balls) until scroll moves back up.
+  private advanceScrollDriven(dt: number): boolean {
+    if (!this.scrollDrive || this.reducedMotion) return false;
+    const u = this.scrollDrive.progress;
+    const end = this.timeline.getSegmentStart('UNWRAPPED_IDLE');
+    const step = this.animationStep;
+    if (step === 'UNWRAPPED_IDLE' && u >= 0.98) return false;
+
+    const onTrack = step === 'INITIAL_CIRCLES_MOVE' || step === 'FORMING_GORES' || step === 'UNWRAPPING';
+    const current = onTrack ? this.timeline.getTime() : end;
+    const target = u * end;
+    const k = 1 - Math.exp(-dt * Background.SCROLL_SMOOTHING);
+    let next = current + (target - current) * k;
+    if (Math.abs(target - next) < 1e-3) next = target;
+    if (next === current && (onTrack || step === 'UNWRAPPED_IDLE')) return true;
+
+    this.replayTo(next);
+    if (this.animationStep !== step) {
+      this.announceSeek();
+      if (this.animationStep === 'UNWRAPPED_IDLE') this.announceUnwrapped();
+    }
+    return true;
+  }
 
-          this.createCircleOutlines();
-          this.currentPlacementProgress = 0;
-          this.updateGores(0);
 
-          if (t >= 1) {
-            // End of reverse morph: settle into the eye + outlines and idle
-            this.wireframeTransitioning = false;
-            this.wireframeMode = 'none';
-            this.animationStep = 'EYE_IDLE';
-            this.stepProgress = 0;
-          }
-          break;
-        }
+  private get animationStep(): AnimationStep {
+    return this.timeline.currentId;
+  }
 
-        case 'EYE_IDLE':
-          // Idle in the initial eye/circle state until startUnwrap() is called
+  // Declare the phase sequence. Each segment owns its timing, stage word and enter/update/exit hooks;
+  // reorder, insert or retime phases here rather than in the frame loop.
+  private buildTimeline(): Timeline<AnimationStep> {
+    const segments: TimelineSegment<AnimationStep>[] = [
+      {
+        id: 'INITIAL_CIRCLES_MOVE',
+        duration: this.stepDurations.INITIAL_CIRCLES_MOVE,
+        // Hold eye, type the first word, hold, then morph while backspacing
+        onEnter: () => this.resetToEye(),
+        onUpdate: ({ elapsed }) => this.updateInitialCirclesMove(elapsed),
+      },
+      {
+        id: 'FORMING_GORES',
+        // Type and hold the second word before gore drawing; then draw gores while backspacing
+        duration: this.STAGE_TYPE_SEC + this.STAGE_HOLD_SECOND_SEC + this.stepDurations.FORMING_GORES,
+        onEnter: () => {
+          this.goreDrawProgress = 0;
+          this.circleDrawProgress = 1;
+          this.wireframeMode = 'none';
+          this.wireframeTransitionTarget = 'wireframe';
+          this.wireframeTransitioning = true;
+          this.wireframeTransitionProgress = 0;
+          this.unwrappingT = 0;
+        },
+        onUpdate: ({ elapsed }) => this.updateFormingGores(elapsed),
+        onExit: () => {
+          this.wireframeMode = 'wireframe';
+          this.wireframeTransitioning = false;
+          this.wireframeTransitionProgress = 1;
+          this.goreDrawProgress = 1;
+          this.circleDrawProgress = 0;
+          this.unwrappingT = 0;
+          this.updateGores(0);
+          this.clearStageText();
+        },
+      },
+      {
+        id: 'UNWRAPPING',
+        // Geometry unwraps over the full duration; the stage word hold is computed so the gap
+        // to the CompanyName reveal matches the earlier inter-word gaps
+        duration: this.stepDurations.UNWRAPPING,
+        onUpdate: ({ progress }) => {
+          this.unwrappingT = progress;
+          this.ensureWireframeMode();
+          this.updatePositions(this.unwrappingT);
+          // Update mission text opacity to fade in simultaneously with edges
+          if (this.missionTextEl) {
+            this.missionTextEl.style.opacity = this.unwrappingT.toString();
+          }
+        },
+        onExit: () => {
+          // Just pause the animation state; no rebuilds or wireframe changes here
+          this.unwrappingT = 1;
+          this.fallback?.setVisible(true);
+          this.announceUnwrapped();
+        },
+      },
+      {
+        id: 'UNWRAPPED_IDLE',
+        duration: Infinity,
+        onUpdate: ({ elapsed }) => {
+          this.updateGlowState(elapsed);
+          // Continue updating glow effects even while idle
+          if (!this.glowOutlineActive) return;
+          this.updateGores(this.unwrappingT);
+          // Balls appear once the glow is fully revealed
+          if (this.glowOutlineProgress >= 1 && !this.ballsSpawned) this.spawnDefaultBalls();
+        },
+        onExit: () => this.updateGlowState(null),
+      },
+      {
+        id: 'WRAPPING',
+        duration: this.stepDurations.WRAPPING,
+        onEnter: () => {
+          this.reverseStartYs = [...this.sphereYs];
+          this.fallback?.setVisible(false);
+          this.setHoveredGore(null);
+          if (this.balls) { this.balls.destroy(); this.balls = undefined; this.ballsSpawned = false; }
+        },
+        onUpdate: ({ progress }) => {
+          this.unwrappingT = 1 - progress;
+          this.ensureWireframeMode();
+          this.updatePositions(this.unwrappingT);
+        },
+        onExit: () => {
+          this.unwrappingT = 0;
+          this.updateGores(0);
+          this.wireframeTransitionTarget = 'edges';
+          this.wireframeTransitioning = true;
+          this.wireframeTransitionProgress = 0;
+          this.wireframeMode = 'wireframe';
+          this.reverseStartYs = [...this.sphereYs];
+        },
+      },
+      {
+        id: 'DEFORMING_GORES',
+        duration: this.stepDurations.DEFORMING_GORES,
+        onUpdate: ({ progress }) => this.updateDeformingGores(progress),
+        onExit: () => {
+          // End of reverse morph: settle into the eye + outlines and idle
+          this.wireframeTransitioning = false;
+          this.wireframeMode = 'none';
+        },
+      },
+      {
+        id: 'EYE_IDLE',
+        // Idle in the initial eye/circle state until startUnwrap() is called
+        duration: Infinity,
+        onUpdate: () => {
           this.unwrappingT = 0;
           this.goreDrawProgress = 0; // only outlines
           this.circleDrawProgress = 1;
@@ -1130,36 +1692,343 @@ export class Background {
           this.wireframeMode = 'none';
           this.currentPlacementProgress = 0;
           this.updateGores(0);
-          this.createCircleOutlines();
-          break;
-      }
+          this.updateCircleOutlines();
+        },
+      },
+    ];
+
+    return new Timeline(segments, {
+      onStageWord: (text, sample) => this.renderStageWord(text, sample),
+      onSegmentChange: (id) => {
+        // A word still on screen when its phase ends does not carry over
+        this.clearStageText();
+        if (!this.silent) this.announcer.say('phase', this.locale.strings.phaseLabels[id]);
+      },
+    });
+  }
 
+  // Reset state to run the forward flow from the eye
+  private resetToEye(): void {
+    this.eyeToCircleProgress = 0;
+    this.circleDrawProgress = 1.0;
+    this.goreDrawProgress = 0.0;
+    this.wireframeMode = 'none';
+    this.wireframeTransitioning = false;
+    this.wireframeTransitionProgress = 0;
+    this.unwrappingT = 0;
+    this.sphereYs = this.sphereConfigs.map(() => this.eyeY);
+  }
 
-      // Run post-typing glow tween (center-out reveal) after name is typed
-      if (this.glowPostAnimating) {
-        const t = Math.min(1, (performance.now() - this.glowPostStart) / this.glowPostDurationMs);
-        this.glowOutlineProgress = t;
-        this.updateGores(this.unwrappingT);
-        if (t >= 1) this.glowPostAnimating = false;
-      }
-      if (this.animationStep === 'UNWRAPPED_IDLE' && this.pendingBallSpawn && this.glowOutlineActive && this.glowOutlineProgress >= 1 && !this.ballsSpawned) {
-        this.spawnDefaultBalls();
-        this.pendingBallSpawn = false;
-      }
-      if (this.balls) this.balls.update(dt);
+  private ensureWireframeMode(): void {
+    if (this.wireframeMode !== 'wireframe') {
+      this.wireframeMode = 'wireframe';
+      this.wireframeTransitioning = false;
+    }
+  }
+
+  private updateInitialCirclesMove(sp: number): void {
+    const total = this.stepDurations.INITIAL_CIRCLES_MOVE;
+    const typeSec = this.STAGE_TYPE_SEC;
+    const holdSec = this.STAGE_HOLD_FIRST_SEC;
+    const morphSec = 1.0; // keep morph speed
+    // movement window (larger because total increased)
+    const yMoveSec = Math.max(0, total - (typeSec + holdSec + morphSec));
+
+    if (sp < typeSec + holdSec) {
+      // Eye held while the word types and holds
+      this.eyeToCircleProgress = 0;
+      this.sphereYs = this.sphereConfigs.map(() => this.eyeY);
+    } else if (sp < typeSec + holdSec + morphSec) {
+      // Morph eye->circle while backspacing (backspace faster than morph)
+      this.eyeToCircleProgress = (sp - typeSec - holdSec) / morphSec;
+      this.sphereYs = this.sphereConfigs.map(() => this.eyeY);
+    } else {
+      // Circles formed; move Y positions over remaining time
+      this.eyeToCircleProgress = 1;
+      const rem = sp - (typeSec + holdSec + morphSec);
+      // use eased progress so movement is smooth and methodical
+      const t3 = yMoveSec > 0 ? THREE.MathUtils.clamp(rem / yMoveSec, 0, 1) : 1;
+      this.alignSphereBottoms(easeInOutCubic(t3));
+    }
+    this.updatePositions(0);
+  }
+
+  // Slide the inner spheres down so their bottoms line up, one nesting level at a time:
+  // first the innermost aligns to its parent, then both align to the next parent, and so on
+  // up to the outermost sphere (which stays at eyeY). tE is the eased 0..1 progress.
+  private alignSphereBottoms(tE: number): void {
+    const n = this.sphereConfigs.length;
+    const stages = n - 1;
+    if (stages <= 0) {
+      this.sphereYs = this.sphereConfigs.map(() => this.eyeY);
+      return;
+    }
+    const pos = THREE.MathUtils.clamp(tE, 0, 1) * stages;
+    const j = Math.min(stages - 1, Math.floor(pos));
+    const a = pos - j;
+    const radius = (i: number) => this.sphereConfigs[i].radius;
+    // After k stages, spheres at index >= n-1-k rest on the bottom of sphere n-1-k
+    const anchorAfter = (k: number, i: number) => Math.min(i, n - 1 - k);
+    for (let i = 0; i < n; i++) {
+      const from = this.eyeY + (radius(i) - radius(anchorAfter(j, i)));
+      const to = this.eyeY + (radius(i) - radius(anchorAfter(j + 1, i)));
+      this.sphereYs[i] = lerp(from, to, a);
+    }
+  }
+
+  private updateFormingGores(sp: number): void {
+    const typeSec = this.STAGE_TYPE_SEC;
+    const holdSec = this.STAGE_HOLD_SECOND_SEC;
+    const goreDur = this.stepDurations.FORMING_GORES; // keep draw speed (2s)
 
-      this.renderer.render(this.scene, this.camera);
+    this.wireframeTransitionTarget = 'wireframe';
+    this.wireframeTransitioning = true;
+    this.unwrappingT = 0;
+    this.currentPlacementProgress = 0;
+
+    if (sp < typeSec + holdSec) {
+      this.goreDrawProgress = 0;
+      this.circleDrawProgress = 1;
+      this.wireframeTransitionProgress = 0;
+      this.updateGores(0);
+      if (sp < typeSec) this.updateCircleOutlines();
+    } else {
+      const tg = Math.min(1, (sp - typeSec - holdSec) / goreDur);
+      this.goreDrawProgress = tg;
+      this.circleDrawProgress = 1 - tg;
+      this.updateCircleOutlines();
+      this.wireframeTransitionProgress = tg;
+      this.updateGores(0);
+    }
+  }
+
+  // Simplified reverse: draw circles back in and morph from circle -> eye
+  private updateDeformingGores(t: number): void {
+    this.circleDrawProgress = t;            // outlines draw in
+    this.eyeToCircleProgress = 1 - t;       // 1 -> 0 (circle -> eye)
+    // Move centers back to neutral level smoothly
+    for (let si = 0; si < this.sphereYs.length; si++) {
+      this.sphereYs[si] = lerp(this.reverseStartYs[si] ?? this.eyeY, this.eyeY, t);
+    }
+
+    // Transition wireframe to edges
+    if (this.wireframeMode !== 'edges' || this.wireframeTransitioning) {
+      this.wireframeTransitioning = true;
+      this.wireframeTransitionTarget = 'edges';
+      this.wireframeTransitionProgress = t;
+    }
+
+    this.updateCircleOutlines();
+    this.currentPlacementProgress = 0;
+    this.updateGores(0);
+  }
+
+  private startAnimation(): void {
+    let last = performance.now();
+
+    const animate = (now: number) => {
+      const dt = this.paused ? 0 : ((now - last) / 1000) * this.playbackRate;
+      last = now;
+      const started = performance.now();
+      this.stepFrame(dt);
+      this.frameStats.record(performance.now() - started);
       this.animationId = requestAnimationFrame(animate);
     };
 
     this.animationId = requestAnimationFrame(animate);
   }
 
+  // Advance everything time-based by dt seconds and render. All animation state flows from dt,
+  // so the same sequence of dts always produces the same frames.
+  private stepFrame(dt: number): void {
+    if (this.reducedMotionPending) this.setReducedMotion(true);
+    if (!this.paused && !this.advanceScrollDriven(dt)) this.timeline.advance(dt);
+
+    if (this.balls) this.balls.update(dt);
+    this.applyOrbitInertia(dt);
+    this.advanceCameraTween(dt);
+    this.advanceProjections(dt);
+    this.advanceGridFade(dt);
+    this.advanceGoreCount(dt);
+    this.applyAutoOrbit(dt);
+
+    this.renderFrame();
+  }
+
+  // Render the sequence offline on a fixed virtual clock (1/fps per frame, independent of wall time and
+  // frame drops) at the requested resolution. Only the WebGL canvas is captured, not the DOM text overlays.
+  // The run is silent (no completion callback or page updates until it ends) and the glow pulse is held
+  // steady, so the same options give the same frames however the hero played before.
+  public async capture(options: CaptureOptions = {}): Promise<CaptureResult> {
+    if (!this.renderer) throw new Error('Capture needs the WebGL renderer');
+    if (this.capturing) throw new Error('A capture is already running');
+    const renderer = this.renderer;
+    const fps = Math.max(1, options.fps ?? 60);
+    const start = Math.max(0, options.start ?? 0);
+    const end = options.duration !== undefined ? start + Math.max(0, options.duration) : this.timeline.getSegmentStart('UNWRAPPED_IDLE');
+    const frameCount = Math.max(1, Math.round((end - start) * fps));
+
+    // Take over the clock and the drawing buffer size
+    this.capturing = true;
+    const wasRunning = this.animationId !== null;
+    if (this.animationId) { cancelAnimationFrame(this.animationId); this.animationId = null; }
+    const prevSize = renderer.getSize(new THREE.Vector2());
+    const prevPixelRatio = renderer.getPixelRatio();
+    const prevPaused = this.paused;
+    const prevSilent = this.silent;
+    const prevScroll = this.scrollDrive;
+    const width = Math.round(options.width ?? prevSize.x * prevPixelRatio);
+    const height = Math.round(options.height ?? prevSize.y * prevPixelRatio);
+    renderer.setPixelRatio(1);
+    renderer.setSize(width, height, false);
+    this.camera.aspect = width / height;
+    this.camera.updateProjectionMatrix();
+    this.paused = false;
+    this.scrollDrive = null;
+    this.silent = true;
+    this.glowPulseIntensity = Background.GLOW_PULSE_REST;
+
+    const canvas = renderer.domElement;
+    const frames: Blob[] = [];
+    let recorder: WebmRecorder | null = null;
+    try {
+      if (options.format === 'webm') recorder = new WebmRecorder(canvas, fps, options.mimeType, options.videoBitsPerSecond);
+      this.seek(start);
+      for (let i = 0; i < frameCount; i++) {
+        if (recorder) await recorder.nextSlot();
+        if (this.destroyed) throw new Error('The hero was destroyed during capture');
+        if (i > 0) this.stepFrame(1 / fps); else this.renderFrame();
+        if (recorder) {
+          recorder.pushFrame();
+        } else {
+          const frame = await canvasToPng(canvas);
+          frames.push(frame);
+          options.onFrame?.(frame, i);
+        }
+        options.onProgress?.((i + 1) / frameCount);
+      }
+      const video = recorder ? await recorder.finish() : undefined;
+      return { frames, video };
+    } finally {
+      this.capturing = false;
+      this.paused = prevPaused;
+      this.silent = prevSilent;
+      if (this.destroyed) {
+        // destroy() could not see the scroll tracker the capture had taken
+        prevScroll?.destroy();
+      } else {
+        this.scrollDrive = prevScroll;
+        renderer.setPixelRatio(prevPixelRatio);
+        renderer.setSize(prevSize.x, prevSize.y);
+        this.camera.aspect = prevSize.x / prevSize.y;
+        this.camera.updateProjectionMatrix();
+        // Bring the page to where the capture left the timeline
+        if (!this.silent) this.announceSeek();
+        if (wasRunning) this.startAnimation(); else this.renderFrame();
+      }
+    }
+  }
+
+  private renderFrame(): void {
+    // The fallback layout is static and repaints itself on resize/theme changes
+    if (this.renderer) this.renderer.render(this.scene, this.camera);
+  }
+
+  // Final unwrapped composition (the placement updatePositions(1) produces); callers dispose the geometries
+  private finalGorePlacements(): Array<{ sphereIndex: number; goreIndex: number; geometry: THREE.BufferGeometry; matrix: THREE.Matrix4 }> {
+    const placements: Array<{ sphereIndex: number; goreIndex: number; geometry: THREE.BufferGeometry; matrix: THREE.Matrix4 }> = [];
+    this.sphereConfigs.forEach((cfg, si) => {
+      for (let i = 0; i < this.currentNumGores; i++) {
+        const { index, count, transition } = this.goreSlot(i);
+        placements.push({
+          sphereIndex: si,
+          goreIndex: i,
+          geometry: createGoreGeometry(index, 1, cfg.radius, count, transition, this.gridMode, this.goreDetail, this.projections[si]),
+          matrix: new THREE.Matrix4().makeRotationZ(this.gorePlacement(si, i)).setPosition(0, this.unwrappedBottomY, 0),
+        });
+      }
+    });
+    return placements;
+  }
+
+  private updateFallbackLayout(): void {
+    if (!this.fallback) return;
+    const gores: FallbackGore[] = this.finalGorePlacements().map(({ sphereIndex, goreIndex, geometry, matrix }) => {
+      const outline = goreOutline(geometry).map(v => v.applyMatrix4(matrix));
+      geometry.dispose();
+      return { outline, color: this.displayGoreColor(sphereIndex, goreIndex) };
+    });
+    this.fallback.setLayout(gores, this.themeState.theme.core);
+  }
+
+  // Rolling CPU frame-time stats (and JS heap where available) for profiling on real devices
+  public getFrameStats(): FrameStatsSnapshot {
+    return this.frameStats.snapshot();
+  }
+
+  // Seed behind the ball motion; include it in bug reports and pass it back via BackgroundOptions.ballSeed
+  public getBallSeed(): number {
+    return this.ballSeed;
+  }
+
+  // Vector snapshot of the logo: gore outlines, the wireframe grid of the current GridMode and the visible
+  // circle outlines. 'current' exports the frame on screen, 'final' the fully unwrapped composition.
+  public exportSVG(frame: 'current' | 'final' = 'current', options: SvgExportOptions = {}): string {
+    const outlines: SvgPolyline[] = [];
+    const grid: SvgPolyline[] = [];
+    const circles: SvgPolyline[] = [];
+    const addGore = (sphereIndex: number, goreIndex: number, geometry: THREE.BufferGeometry, matrix: THREE.Matrix4) => {
+      const color = this.displayGoreColor(sphereIndex, goreIndex);
+      const pos = geometry.getAttribute('position') as THREE.BufferAttribute;
+      const world = (i: number) => new THREE.Vector3().fromBufferAttribute(pos, i).applyMatrix4(matrix);
+      goreGridEdges(geometry, this.gridMode).forEach(([a, b]) => {
+        grid.push({ points: [world(a), world(b)], closed: false, stroke: color, strokeWidth: 0.75, opacity: 0.6 });
+      });
+      outlines.push({ points: goreOutline(geometry).map(v => v.applyMatrix4(matrix)), closed: true, stroke: color, strokeWidth: 2 });
+    };
+
+    if (frame === 'final') {
+      this.finalGorePlacements().forEach(({ sphereIndex, goreIndex, geometry, matrix }) => {
+        addGore(sphereIndex, goreIndex, geometry, matrix);
+        geometry.dispose();
+      });
+    } else {
+      this.scene.updateMatrixWorld(true);
+      if (this.goreCpuStale) this.syncGoreShapes();
+      // Gores are only on screen once they start drawing or unfolding
+      if (this.goreDrawProgress > 0 || this.unwrappingT > 0) {
+        this.sphereGroups.forEach((group, si) => {
+          group.children.forEach((child, i) => {
+            const gore = child as THREE.Mesh;
+            if (gore.userData.isGore) addGore(si, i, gore.geometry, gore.matrixWorld);
+          });
+        });
+      }
+      this.circles.forEach(({ core: line }) => {
+        const opacity = line.material.opacity;
+        if (!line.visible || opacity <= 0) return;
+        const pos = line.geometry.getAttribute('position') as THREE.BufferAttribute;
+        const points: THREE.Vector3[] = [];
+        for (let i = 0; i < pos.count; i++) points.push(new THREE.Vector3().fromBufferAttribute(pos, i).applyMatrix4(line.matrixWorld));
+        circles.push({ points, closed: true, stroke: this.themeState.theme.core, strokeWidth: 3, opacity });
+      });
+    }
+
+    const layers: SvgLayer[] = [
+      { id: 'gore-grid', lines: grid },
+      { id: 'gore-outlines', lines: outlines },
+      { id: 'circle-outlines', lines: circles },
+    ];
+    return buildSvg(layers, this.camera, options);
+  }
+
   // Create centered stage text element (same style as CompanyName)
   private createStageTextElement(): void {
     if (this.stageTextEl) return;
     const el = document.createElement('div');
     el.className = 'stage-text';
+    el.lang = this.locale.code;
+    el.dir = this.locale.dir;
     el.style.cssText = `
       position: absolute;
       top: var(--hero-center);
@@ -1192,31 +2061,126 @@ export class Background {
     const host = this.element.parentElement || document.body;
     host.appendChild(el);
     this.stageTextEl = el;
+    this.applyStageTextTheme();
+    this.events.emit('stageTextCreated');
+  }
+
+  private applyStageTextTheme(): void {
+    if (!this.stageTextEl) return;
+    const theme = this.themeState.theme;
+    this.stageTextEl.style.color = cssColor(theme.core);
+    this.stageTextEl.style.textShadow = `0 0 10px ${cssColor(theme.core)}, 0 0 20px ${cssColor(theme.glowInner)}, 0 0 30px ${cssColor(theme.glowOuter)}, 0 0 40px ${cssColor(theme.glowOuter)}`;
   }
 
   private setStageTextTyping(t: number): void {
     if (!this.stageTextEl) this.createStageTextElement();
     if (!this.stageTextEl) return;
-    const len = Math.floor(this.stageText.length * THREE.MathUtils.clamp(t, 0, 1));
-    this.stageTextEl.textContent = this.stageText.substring(0, len);
+    const chars = this.stageGraphemes;
+    const len = Math.floor(chars.length * THREE.MathUtils.clamp(t, 0, 1));
+    this.stageTextEl.textContent = chars.slice(0, len).join('');
     this.stageTextEl.style.display = len > 0 ? 'block' : 'none';
   }
 
   private setStageTextBackspacing(t: number): void {
     if (!this.stageTextEl) return;
-    const len = Math.max(0, this.stageText.length - Math.floor(this.stageText.length * THREE.MathUtils.clamp(t, 0, 1)));
-    this.stageTextEl.textContent = this.stageText.substring(0, len);
+    const chars = this.stageGraphemes;
+    const len = Math.max(0, chars.length - Math.floor(chars.length * THREE.MathUtils.clamp(t, 0, 1)));
+    this.stageTextEl.textContent = chars.slice(0, len).join('');
     this.stageTextEl.style.display = len > 0 ? 'block' : 'none';
   }
 
-  // Map elapsed seconds -> normalized typing progress and reuse existing substring logic
-  private setStageTextTypingElapsed(elapsed: number, total: number): void {
-    const t = THREE.MathUtils.clamp(elapsed / Math.max(0.001, total), 0, 1);
-    this.setStageTextTyping(t);
+  // Render a timeline stage-word sample into the overlay
+  private renderStageWord(text: string, sample: StageWordSample): void {
+    if (text !== this.stageText) {
+      this.stageText = text;
+      // Type by user-perceived character so emoji and combining marks never split
+      this.stageGraphemes = graphemes(text, this.locale.code);
+      this.events.emit('stageTextUpdated', { text });
+    }
+    // Read each word once it is fully typed rather than letter by letter
+    if (sample.phase === 'cleared') {
+      this.announcedWord = '';
+    } else if (sample.phase === 'holding' && text !== this.announcedWord) {
+      this.announcedWord = text;
+      this.announcer.say('word', text);
+    }
+    // Reduced motion: whole words appear and disappear without typing
+    if (this.reducedMotion) {
+      if (sample.phase === 'cleared') this.clearStageText();
+      else this.setStageTextTyping(1);
+      return;
+    }
+    switch (sample.phase) {
+      case 'typing': this.setStageTextTyping(sample.t); break;
+      case 'holding': this.setStageTextTyping(1); break;
+      case 'backspacing': this.setStageTextBackspacing(sample.t); break;
+      case 'cleared': this.clearStageText(); break;
+    }
+  }
+
+  // Reduced motion lands past every word cue, so the whole track shows at once: one static line above the name
+  private showStaticStageWords(): void {
+    const text = this.stageWords.map(w => w.text).join(' · ');
+    if (!text) return;
+    this.stageText = text;
+    this.stageGraphemes = graphemes(text, this.locale.code);
+    this.events.emit('stageTextUpdated', { text });
+    this.setStageTextTyping(1);
+    if (!this.stageTextEl) return;
+    this.stageTextEl.style.transform = 'translate(-50%, calc(-50% - 9rem)) scale(0.4)';
+    this.announcer.say('word', text);
+  }
+
+  // The original three-word sequence: one word per phase, the last one held to line up with the CompanyName reveal
+  private defaultStageWords(): StageWordSpec[] {
+    const [observe, discover, transform] = this.locale.strings.stageWords;
+    const words: StageWordSpec[] = [
+      { text: observe, at: 'INITIAL_CIRCLES_MOVE', holdSec: this.STAGE_HOLD_FIRST_SEC },
+      { text: discover, at: 'FORMING_GORES', holdSec: this.STAGE_HOLD_SECOND_SEC },
+      { text: transform, at: 'UNWRAPPING', holdSec: this.getUnwrapHoldToMatchGap() },
+    ];
+    return words.filter(w => !!w.text);
+  }
+
+  // Replace the stage word track; takes effect from the next frame
+  public setStageWords(words: StageWordSpec[]): void {
+    this.stageWords = words.map(w => ({ ...w }));
+    this.placeStageWords();
+    this.clearStageText();
+    this.events.emit('stageWordsChanged', { words: this.getStageWords() });
+  }
+
+  public getStageWords(): string[] {
+    return this.stageWords.map(w => w.text);
   }
-  private setStageTextBackspacingElapsed(elapsed: number, total: number): void {
-    const t = THREE.MathUtils.clamp(elapsed / Math.max(0.001, total), 0, 1);
-    this.setStageTextBackspacing(t);
+
+  public getLocale(): HeroLocale {
+    return this.locale;
+  }
+
+  // Turn the track into per-segment cues; words anchored past the end of the sequence are dropped
+  private placeStageWords(): void {
+    const cues = new Map<AnimationStep, StageWordCue[]>();
+    this.stageWords.forEach(word => {
+      const offset = word.offset ?? 0;
+      const slot = typeof word.at === 'number'
+        ? this.timeline.locate(word.at + offset)
+        : { id: word.at, elapsed: offset };
+      if (!slot || !this.timeline.getSegment(slot.id)) {
+        console.warn(`Stage word "${word.text}" is outside the timeline and will not be shown`);
+        return;
+      }
+      const list = cues.get(slot.id) ?? [];
+      list.push({
+        text: word.text,
+        start: Math.max(0, slot.elapsed),
+        typeSec: word.typeSec ?? this.STAGE_TYPE_SEC,
+        holdSec: word.holdSec ?? this.STAGE_HOLD_SECOND_SEC,
+        backSec: word.backSec ?? this.STAGE_BACK_SEC,
+      });
+      cues.set(slot.id, list);
+    });
+    this.timeline.getSegments().forEach(seg => { seg.stageWords = cues.get(seg.id); });
   }
 
   // Compute average inter-word gap from earlier stages, then derive UNWRAPPING hold to match that gap to the CompanyName reveal.
@@ -1237,6 +2201,8 @@ export class Background {
     if (!this.stageTextEl) return;
     this.stageTextEl.textContent = '';
     this.stageTextEl.style.display = 'none';
+    // Back to the typed-word layout after showStaticStageWords
+    this.stageTextEl.style.transform = 'translate(-50%, -50%)';
   }
 
   // Apply a helical twist around the local Y-axis distributed along the gore's height.
@@ -1283,49 +2249,39 @@ export class Background {
       arr[ix + 2] = nz;
     }
 
+    // Gores use unlit materials, so normals are left as built
     pos.needsUpdate = true;
-    if (geom.getAttribute('normal')) {
-      geom.computeVertexNormals();
-    }
   }
 
   public destroy(): void {
+    this.destroyed = true;
     if (this.animationId) {
       cancelAnimationFrame(this.animationId);
     }
     if (this.balls) { this.balls.destroy(); this.balls = undefined; }
+    this.endGridFade();
+    this.goreCountTween = null;
+    this.setScrollDriven(null);
+    this.unsubscribers.forEach(off => off());
+    this.unsubscribers = [];
 
     // Dispose of Three.js resources
     this.sphereGroups.forEach(group => {
       while (group.children.length > 0) {
-        const child = group.children[0];
-        group.remove(child);
-        if ((child as THREE.Mesh).geometry) (child as THREE.Mesh).geometry.dispose();
-        if ((child as THREE.Mesh).material) {
-          const material = (child as THREE.Mesh).material;
-          if (Array.isArray(material)) {
-            material.forEach(mat => mat.dispose());
-          } else {
-            material.dispose();
-          }
-        }
+        const gore = group.children[0] as THREE.Mesh;
+        group.remove(gore);
+        this.disposeGore(gore);
       }
     });
 
-    this.circleOutlines.forEach(circle => {
-      this.scene.remove(circle);
-      if (circle.geometry) circle.geometry.dispose();
-      if (circle.material) {
-        const material = circle.material;
-        if (Array.isArray(material)) {
-          material.forEach(mat => mat.dispose());
-        } else {
-          material.dispose();
-        }
-      }
-    });
+    this.circles.forEach(circle => circle.dispose());
+    this.circles = [];
 
-    this.renderer.dispose();
+    this.renderer?.dispose();
+    this.fallback?.dispose();
+    this.announcer.destroy();
+    this.helpEl?.remove();
+    this.helpEl = null;
     this.element.remove();
     // Remove stage text overlay
     if (this.stageTextEl) {
@@ -1,14 +1,16 @@
 import * as THREE from 'three';
-import { Background } from './SophonAnimation';
+import { Background, type BackgroundOptions } from './SophonAnimation';
 import { createGoreGeometry, lerp, easeInOutCubic } from './core/geometry';
+import { DEFAULT_GORE_PROJECTION, gorePlacementAngle } from './core/projections';
+import { graphemes } from '../../i18n';
 
 export class BackgroundMobile extends Background {
     private mobileScaleGroup: THREE.Group | null = null;
     private targetScreenWidthRatio = 0.95;
     private boundResize?: () => void;
+    private mobileUnsubscribers: Array<() => void> = [];
     // Font sizing config
     private fontTargetScreenWidthRatio = 1.1;
-    private fontReferenceWord = 'TRANSFORM'; // Longest word to use as reference
     private fontMinSize = 24; // Increased minimum font size
     private fontMaxSize = 200; // Increased maximum font size
     private fontLetterSpacingRatio = 0.125; // Letter spacing as a ratio of font size (0.5rem/4rem = 0.125)
@@ -17,8 +19,8 @@ export class BackgroundMobile extends Background {
     private lastCalculatedFontSize = 0;
     private lastCalculatedSubtitleFontSize = 0;
 
-    constructor(container: HTMLElement, onAnimationComplete?: () => void) {
-        super(container, onAnimationComplete);
+    constructor(container: HTMLElement, onAnimationComplete?: () => void, options?: BackgroundOptions) {
+        super(container, onAnimationComplete, options);
 
         // Setup scaling root and initial scaling asynchronously (after parent init)
         this.setupMobileRoot();
@@ -69,8 +71,15 @@ export class BackgroundMobile extends Background {
         };
 
         // Listen for stage text creation/updates and reapply font size
-        window.addEventListener('stageTextCreated', this.handleStageTextEvent.bind(this));
-        window.addEventListener('stageTextUpdated', this.handleStageTextEvent.bind(this));
+        this.mobileUnsubscribers.push(
+            this.events.on('stageTextCreated', () => this.handleStageTextEvent()),
+            this.events.on('stageTextUpdated', () => this.handleStageTextEvent()),
+            // A new word track may have a new longest word
+            this.events.on('stageWordsChanged', () => {
+                this.lastCalculatedFontSize = 0;
+                this.applyMobileFonts();
+            })
+        );
     }
 
     /**
@@ -137,7 +146,8 @@ export class BackgroundMobile extends Background {
 
         // Account for letter spacing in measurement
         const letterSpacing = fontSize * this.fontLetterSpacingRatio;
-        const referenceWord = this.fontReferenceWord;
+        const referenceWord = this.fontReferenceWord(ctx, fontWeight, fontFamily);
+        const referenceCharCount = graphemes(referenceWord, this.getLocale().code).length;
 
         while (minSize <= maxSize && iterations < maxIterations) {
             // Set font with current size for measurement
@@ -146,7 +156,7 @@ export class BackgroundMobile extends Background {
             // Measure text width
             const metrics = ctx.measureText(referenceWord);
             // Add letter spacing to the width (n-1 spaces between n characters)
-            const totalWidth = metrics.width + (referenceWord.length - 1) * letterSpacing;
+            const totalWidth = metrics.width + (referenceCharCount - 1) * letterSpacing;
 
             if (Math.abs(totalWidth - targetWidth) < 2) {
                 // Close enough, break early
@@ -168,6 +178,20 @@ export class BackgroundMobile extends Background {
         return Math.max(this.fontMinSize, Math.min(this.fontMaxSize, fontSize));
     }
 
+    /**
+     * Widest configured stage word (letter spacing included), measured once at a fixed size
+     * since widths scale with the font size
+     */
+    private fontReferenceWord(ctx: CanvasRenderingContext2D, fontWeight: string, fontFamily: string): string {
+        const words = this.getStageWords().filter(w => w.length > 0);
+        if (words.length === 0) return 'TRANSFORM';
+        const size = 100;
+        ctx.font = `${fontWeight} ${size}px ${fontFamily}`;
+        const code = this.getLocale().code;
+        const width = (w: string) => ctx.measureText(w).width + (graphemes(w, code).length - 1) * size * this.fontLetterSpacingRatio;
+        return words.reduce((best, w) => (width(w) > width(best) ? w : best));
+    }
+
     // Compute current pixel width of two adjacent gores when fully unfolded (t=1)
     private measureGorePixelWidth(): number {
         const scene: THREE.Scene | undefined = (this as any).scene;
@@ -178,7 +202,8 @@ export class BackgroundMobile extends Background {
         const sphereGroups: THREE.Group[] | undefined = (this as any).sphereGroups;
         const currentNumGores: number = (this as any).currentNumGores ?? 9;
         const transitionProgress: number = (this as any).transitionProgress ?? 1;
-        const gridMode: any = (this as any).gridMode ?? 'rectangular';
+        const gridMode = this.gridMode;
+        const projections = this.projections;
 
         // Determine radii for each sphere group (fallbacks keep them reasonable)
         const fallbackRadii = [2.2, 1.4, 0.75];
@@ -214,8 +239,9 @@ export class BackgroundMobile extends Background {
         for (let si = 0; si < radii.length; si++) {
             const r = radii[si];
             for (let gi = 0; gi < currentNumGores; gi++) {
-                const geom = createGoreGeometry(gi, unfold, r, currentNumGores, transitionProgress, gridMode);
-                const ang = (gi + 0.5) * angleStep * progress;
+                const projection = projections[si] ?? { from: DEFAULT_GORE_PROJECTION, to: DEFAULT_GORE_PROJECTION, t: 1 };
+                const geom = createGoreGeometry(gi, unfold, r, currentNumGores, transitionProgress, gridMode, 1, projection);
+                const ang = gorePlacementAngle(projection, { goreIndex: gi, angleStep, sphereRadius: r, gridMode }) * progress;
                 const rot = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 0, 1), ang);
                 const worldMat = new THREE.Matrix4().compose(new THREE.Vector3(0, 0, 0), sceneQuat.clone().multiply(rot), scaleVec.clone());
                 const pos = geom.getAttribute('position') as THREE.BufferAttribute;
@@ -299,13 +325,19 @@ export class BackgroundMobile extends Background {
         this.lastCalculatedSubtitleFontSize = fontSize;
 
         // Dispatch events with calculated font sizes - both use the same size
-        this.dispatchFontSizeEvent('mobileCompanyFontSize', fontSize);
-        this.dispatchFontSizeEvent('mobileTitleFontSize', fontSize);
+        const detail = { fontSize, letterSpacingRatio: this.fontLetterSpacingRatio };
+        this.events.emit('mobileCompanyFontSize', detail);
+        this.events.emit('mobileTitleFontSize', detail);
 
         // Also apply to any stage text elements created by Background
         this.applyFontSizeToStageText(fontSize);
     }
 
+    // Hero container hosting our overlays (falls back to the document before mount)
+    private heroRoot(): ParentNode {
+        return this.element.parentElement ?? document;
+    }
+
     /**
      * Apply calculated font size to stage text elements
      * (OBSERVE, RESEARCH, STRATEGY)
@@ -325,7 +357,7 @@ export class BackgroundMobile extends Background {
             stageTextEl.style.letterSpacing = `${textFontSize * letterSpacingRatio}px`;
 
             // Also look for stage text in the DOM directly as a fallback
-            const stageTextElements = document.querySelectorAll('.stage-text') as NodeListOf<HTMLElement>;
+            const stageTextElements = this.heroRoot().querySelectorAll('.stage-text') as NodeListOf<HTMLElement>;
             stageTextElements.forEach(el => {
                 if (el !== stageTextEl) {
                     el.style.fontSize = `${textFontSize}px`;
@@ -334,7 +366,7 @@ export class BackgroundMobile extends Background {
             });
         } else {
             // Try to find it in the DOM directly as a fallback
-            const stageTextElements = document.querySelectorAll('.stage-text') as NodeListOf<HTMLElement>;
+            const stageTextElements = this.heroRoot().querySelectorAll('.stage-text') as NodeListOf<HTMLElement>;
             stageTextElements.forEach(el => {
                 el.style.fontSize = `${textFontSize}px`;
                 el.style.letterSpacing = `${textFontSize * letterSpacingRatio}px`;
@@ -342,29 +374,13 @@ export class BackgroundMobile extends Background {
         }
     }
 
-    /**
-     * Helper to dispatch a custom font size event
-     */
-    private dispatchFontSizeEvent(eventName: string, fontSize: number): void {
-        const event = new CustomEvent(eventName, {
-            detail: {
-                fontSize: fontSize,
-                letterSpacingRatio: this.fontLetterSpacingRatio
-            },
-            bubbles: true,
-            cancelable: true
-        });
-        window.dispatchEvent(event);
-    }
-
     public destroy(): void {
         // Remove listeners and reset scale, then let parent clean up
         if (this.boundResize) window.removeEventListener('resize', this.boundResize);
 
-        // Remove stage text event listeners - store the bound function reference to properly remove
-        const boundHandleStageTextEvent = this.handleStageTextEvent.bind(this);
-        window.removeEventListener('stageTextCreated', boundHandleStageTextEvent);
-        window.removeEventListener('stageTextUpdated', boundHandleStageTextEvent);
+        // Remove stage text event listeners
+        this.mobileUnsubscribers.forEach(off => off());
+        this.mobileUnsubscribers = [];
 
         // Best-effort restore scene add/remove if we patched them
         const scene: THREE.Scene | undefined = (this as any).scene;
@@ -0,0 +1,38 @@
+// Screen-reader announcements through a visually hidden aria-live region. Messages are grouped per
+// slot and flushed once per task, so a burst of updates (e.g. a seek replaying every phase) is read
+// as one short sentence with only the latest value of each slot.
+
+export type AnnounceSlot = 'phase' | 'word';
+
+export class Announcer {
+    private el: HTMLDivElement;
+    private pending = new Map<AnnounceSlot, string>();
+    private scheduled = false;
+
+    constructor(host: HTMLElement) {
+        this.el = document.createElement('div');
+        this.el.className = 'sr-only';
+        this.el.setAttribute('aria-live', 'polite');
+        this.el.setAttribute('aria-atomic', 'true');
+        host.appendChild(this.el);
+    }
+
+    public say(slot: AnnounceSlot, message: string): void {
+        this.pending.set(slot, message);
+        if (this.scheduled) return;
+        this.scheduled = true;
+        queueMicrotask(() => this.flush());
+    }
+
+    public destroy(): void {
+        this.pending.clear();
+        this.el.remove();
+    }
+
+    private flush(): void {
+        this.scheduled = false;
+        const parts = (['phase', 'word'] as AnnounceSlot[]).map(s => this.pending.get(s)).filter(Boolean);
+        this.pending.clear();
+        if (parts.length > 0) this.el.textContent = parts.join('. ');
+    }
+}
@@ -0,0 +1,63 @@
+// Data feeds for BallsManager: each record becomes one ball; records are matched across updates by id.
+
+export type BallRecord = { id: string | number; category: string; weight: number };
+
+// A fixed array, a function (sync or async, e.g. an in-page stub) or the URL of a JSON file holding
+// either an array of records or `{ records: [...] }`
+export type BallDataSource = BallRecord[] | (() => BallRecord[] | Promise<BallRecord[]>) | string;
+
+export function parseBallRecords(json: unknown): BallRecord[] {
+    const list = Array.isArray(json) ? json : (json as { records?: unknown })?.records;
+    if (!Array.isArray(list)) throw new Error('Ball feed must be an array of records or { records: [...] }');
+    return list
+        .filter((r): r is BallRecord => !!r && (typeof r.id === 'string' || typeof r.id === 'number') && typeof r.category === 'string')
+        .map(r => ({ id: r.id, category: r.category, weight: Number.isFinite(Number(r.weight)) ? Number(r.weight) : 0 }));
+}
+
+// Loads a source once, or every `pollMs` when given, and hands each snapshot to `onRecords`.
+// Failed loads are logged and the previous snapshot stays in place.
+export class BallFeed {
+    private source: BallDataSource;
+    private onRecords: (records: BallRecord[]) => void;
+    private pollMs: number;
+    private timer: ReturnType<typeof setInterval> | null = null;
+    private stopped = false;
+
+    constructor(source: BallDataSource, onRecords: (records: BallRecord[]) => void, pollMs = 0) {
+        this.source = source;
+        this.onRecords = onRecords;
+        this.pollMs = Math.max(0, pollMs);
+    }
+
+    public start(): void {
+        this.stopped = false;
+        void this.load();
+        if (this.pollMs > 0 && typeof this.source !== 'object') {
+            this.timer = setInterval(() => void this.load(), this.pollMs);
+        }
+    }
+
+    public stop(): void {
+        this.stopped = true;
+        if (this.timer) { clearInterval(this.timer); this.timer = null; }
+    }
+
+    private async load(): Promise<void> {
+        try {
+            let records: BallRecord[];
+            if (typeof this.source === 'string') {
+                const res = await fetch(this.source, { cache: 'no-store' });
+                if (!res.ok) throw new Error(`HTTP ${res.status}`);
+                records = parseBallRecords(await res.json());
+            } else if (typeof this.source === 'function') {
+                records = parseBallRecords(await this.source());
+            } else {
+                records = parseBallRecords(this.source);
+            }
+            // A stop() while the request was in flight wins
+            if (!this.stopped) this.onRecords(records);
+        } catch (e) {
+            console.warn('Ball feed update failed', e);
+        }
+    }
+}
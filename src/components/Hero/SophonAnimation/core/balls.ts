@@ -1,6 +1,9 @@
 import * as THREE from 'three';
+import { createRandom, randomSeed, type Random } from './random';
+import { BallFeed, type BallDataSource, type BallRecord } from './ballFeed';
 
 type GoreBall = {
+    id: number;
     root: THREE.Group;              // attached under gore; preserves through overlay rebuilds
     gore: THREE.Mesh;
     color: number;
@@ -15,24 +18,120 @@ type GoreBall = {
     // New fields for smoother behavior
     coreMat: THREE.MeshBasicMaterial;
     glowMat: THREE.MeshBasicMaterial;
-    spawnTime: number;
-    fadeDuration: number;
+    spawnTime: number;         // manager clock (s) at spawn
+    fadeDuration: number;      // s
+    fadeOutStart?: number;     // set when the ball is retired; removed once faded out
     center: THREE.Vector2;     // gore centroid for inward steering
     wanderTheta: number;       // current wander heading
+    size: number;              // scale of the core + glow
+    speed: number;             // multiplier on the steering speeds
+    glow: number;              // multiplier on the halo opacity
+    trail?: { line: THREE.Line; points: THREE.Vector3[] };  // history in the line's parent space, newest first
+};
+
+// Where balls may move on a gore (gore-local XY)
+type GoreRegion = {
+    hull: THREE.Vector2[];
+    exPolys: THREE.Vector2[][];
+    center: THREE.Vector2;
+    tip: THREE.Vector2;        // farthest vertex from the gore origin
+};
+
+// Optional idle simulation: ball-to-ball forces, moving between neighbouring gores and fading trails
+export type BallSimulation = {
+    interaction?: 'none' | 'repel' | 'attract';
+    strength?: number;         // acceleration at zero distance (world units / s^2)
+    radius?: number;           // world units; balls farther apart do not interact
+    migrate?: boolean;         // let balls cross into the neighbouring gore of the same sphere
+    trails?: boolean;
+    trailLength?: number;      // trail samples per ball
+};
+
+export type BallStyle = { size?: number; speed?: number; glow?: number };
+
+// How feed records become balls (see bindData)
+export type BallBinding = {
+    // Gore a category lives on; records whose category maps nowhere are skipped
+    goreFor: (category: string) => THREE.Mesh | undefined;
+    color?: (record: BallRecord) => number;
+    sizeRange?: [number, number];  // size for the lightest/heaviest record of a snapshot
+    glowRange?: [number, number];  // halo multiplier for the lightest/heaviest record
+    pollMs?: number;               // reload function/URL sources this often (0 = once)
+};
+
+// Read-only view of a ball for callers outside the manager
+export type BallInfo = {
+    id: number;
+    gore: THREE.Mesh;
+    color: number;
+    size: number;
+    speed: number;
+    local: THREE.Vector2;   // gore-local XY
+    world: THREE.Vector3;
+};
+
+export type BallsOptions = {
+    // Same seed (and same dt sequence) => same trajectories; random when omitted
+    seed?: number;
+    // Integrate in fixed steps of this many seconds (leftover time carries to the next update)
+    fixedStep?: number;
 };
 
 export class BallsManager {
     private scene: THREE.Scene;
     private balls: GoreBall[] = [];
+    // Auto ids; ids chosen by callers (addBallForGore's `id`) are expected to stay below this
+    private nextId = 2_000_000;
+    // Feed binding: record id -> ball and the gore its category mapped to
+    private feed: BallFeed | null = null;
+    private dataBalls = new Map<string, { ballId: number; gore: THREE.Mesh }>();
+    // Gores whose glow overlay was fed last frame (so emptied gores can be switched off)
+    private glowGores = new Set<THREE.Mesh>();
+    // Per-gore movement regions, computed on first use (refreshRegions() after the gores are reshaped)
+    private regions = new Map<THREE.Mesh, GoreRegion>();
+    private sim: Required<BallSimulation> = { interaction: 'none', strength: 0.25, radius: 0.6, migrate: false, trails: false, trailLength: 40 };
     private active = true;
+    // Frozen balls keep their place and full opacity (reduced motion)
+    private frozen = false;
+    // Advanced only by update(dt), so fades follow the caller's clock (real time or a capture clock)
+    private clock = 0;
+    private seed: number;
+    private random: Random;
+    private fixedStep: number;
+    private stepRemainder = 0;
+    private static readonly MAX_STEPS_PER_UPDATE = 240;
 
     // Proximity glow shader limits
     private static readonly MAX_HOTS = 8;
     private static readonly GLOW_SIGMA = 0.45;     // falloff radius in local units
     private static readonly GLOW_STRENGTH = 0.4;   // overall intensity multiplier
 
-    constructor(scene: THREE.Scene) {
+    constructor(scene: THREE.Scene, options: BallsOptions = {}) {
         this.scene = scene;
+        this.seed = (options.seed ?? randomSeed()) >>> 0;
+        this.random = createRandom(this.seed);
+        this.fixedStep = Math.max(0, options.fixedStep ?? 0);
+    }
+
+    public getSeed(): number {
+        return this.seed;
+    }
+
+    // Restart the random sequence (affects balls added and choices made from now on)
+    public setSeed(seed: number): void {
+        this.seed = seed >>> 0;
+        this.random = createRandom(this.seed);
+    }
+
+    public setSimulation(sim: BallSimulation): void {
+        this.sim = { ...this.sim, ...sim };
+        this.sim.trailLength = Math.max(2, Math.floor(this.sim.trailLength));
+        if (!this.sim.trails) this.balls.forEach(b => this.disposeTrail(b));
+    }
+
+    public setFixedStep(step: number): void {
+        this.fixedStep = Math.max(0, step);
+        this.stepRemainder = 0;
     }
 
     public setActive(active: boolean) {
@@ -40,56 +139,140 @@ export class BallsManager {
         this.balls.forEach(b => (b.root.visible = active));
     }
 
+    public setFrozen(frozen: boolean) {
+        this.frozen = frozen;
+    }
+
     public clear(): void {
-        this.balls.forEach(b => {
-            if (b.root.parent) b.root.parent.remove(b.root);
-            b.root.traverse(obj => {
-                const mesh = obj as THREE.Mesh;
-                if (mesh.geometry) mesh.geometry.dispose();
-                const mat = (mesh as any).material;
-                if (mat) {
-                    if (Array.isArray(mat)) mat.forEach(m => m.dispose());
-                    else mat.dispose();
-                }
-            });
-        });
+        this.balls.forEach(b => this.disposeBall(b));
         this.balls = [];
+        this.dataBalls.clear();
+        this.regions.clear();
+        this.updateProximityGlows();
+    }
+
+    // Fade the ball out, then remove it (immediately when frozen)
+    public retireBall(id: number): boolean {
+        const ball = this.balls.find(b => b.id === id);
+        if (!ball) return false;
+        if (this.frozen) return this.removeBall(id);
+        if (ball.fadeOutStart === undefined) ball.fadeOutStart = this.clock;
+        return true;
+    }
+
+    public removeBall(id: number): boolean {
+        const ball = this.balls.find(b => b.id === id);
+        if (!ball) return false;
+        this.disposeBall(ball);
+        this.balls = this.balls.filter(b => b !== ball);
+        this.updateProximityGlows();
+        return true;
+    }
+
+    public setBallColor(id: number, color: number): boolean {
+        const ball = this.balls.find(b => b.id === id);
+        if (!ball) return false;
+        ball.color = color;
+        ball.coreMat.color.setHex(color);
+        ball.glowMat.color.setHex(color);
+        return true;
+    }
+
+    public setBallStyle(id: number, style: BallStyle): boolean {
+        const ball = this.balls.find(b => b.id === id);
+        if (!ball) return false;
+        if (style.size !== undefined) {
+            ball.size = Math.max(0.01, style.size);
+            ball.root.scale.setScalar(ball.size);
+        }
+        if (style.speed !== undefined) ball.speed = Math.max(0, style.speed);
+        if (style.glow !== undefined) ball.glow = Math.max(0, style.glow);
+        return true;
+    }
+
+    public getBalls(): BallInfo[] {
+        return this.balls.map(b => ({
+            id: b.id,
+            gore: b.gore,
+            color: b.color,
+            size: b.size,
+            speed: b.speed,
+            local: b.pos.clone(),
+            world: b.root.getWorldPosition(new THREE.Vector3()),
+        }));
+    }
+
+    private disposeBall(b: GoreBall): void {
+        this.disposeTrail(b);
+        if (b.root.parent) b.root.parent.remove(b.root);
+        b.root.traverse(obj => {
+            const mesh = obj as THREE.Mesh;
+            if (mesh.geometry) mesh.geometry.dispose();
+            const mat = (mesh as any).material;
+            if (mat) {
+                if (Array.isArray(mat)) mat.forEach(m => m.dispose());
+                else mat.dispose();
+            }
+        });
     }
 
     public destroy(): void {
+        this.unbindData();
         this.clear();
     }
 
-    // Add a ball to a specific gore mesh with a given color
-    public addBallForGore(gore: THREE.Mesh, color: number): void {
-        const geometry = gore.geometry as THREE.BufferGeometry;
-        const posAttr = geometry.getAttribute('position') as THREE.BufferAttribute;
+    // Keep one ball per record of `source`. Updates are diffed by record id: new records fade in,
+    // missing ones fade out, and the rest are restyled in place.
+    public bindData(source: BallDataSource, binding: BallBinding): void {
+        this.unbindData();
+        this.feed = new BallFeed(source, records => this.syncRecords(records, binding), binding.pollMs);
+        this.feed.start();
+    }
 
-        // tip = farthest vertex from center (0,0)
-        let maxL = -Infinity;
-        const tip = new THREE.Vector2();
-        for (let i = 0; i < posAttr.count; i++) {
-            const x = posAttr.getX(i);
-            const y = posAttr.getY(i);
-            const l = x * x + y * y;
-            if (l > maxL) { maxL = l; tip.set(x, y); }
-        }
+    // Stop listening to the feed; balls already placed stay
+    public unbindData(): void {
+        if (this.feed) { this.feed.stop(); this.feed = null; }
+    }
 
-        // Current hull (local XY)
-        const pts: THREE.Vector2[] = [];
-        for (let i = 0; i < posAttr.count; i++) {
-            pts.push(new THREE.Vector2(posAttr.getX(i), posAttr.getY(i)));
+    public syncRecords(records: BallRecord[], binding: BallBinding): void {
+        const [minSize, maxSize] = binding.sizeRange ?? [0.7, 1.6];
+        const [minGlow, maxGlow] = binding.glowRange ?? [0.5, 1.5];
+        const weights = records.map(r => r.weight);
+        const lo = Math.min(...weights), hi = Math.max(...weights);
+        const seen = new Set<string>();
+
+        for (const record of records) {
+            const key = String(record.id);
+            const gore = binding.goreFor(record.category);
+            if (!gore || seen.has(key)) continue;
+            seen.add(key);
+
+            const t = hi > lo ? (record.weight - lo) / (hi - lo) : 1;
+            const style = { size: minSize + (maxSize - minSize) * t, glow: minGlow + (maxGlow - minGlow) * t };
+            const color = binding.color?.(record) ?? 0xffffff;
+            const entry = this.dataBalls.get(key);
+            const live = entry && this.balls.find(b => b.id === entry.ballId && b.fadeOutStart === undefined);
+
+            if (entry && live && entry.gore === gore) {
+                this.setBallColor(entry.ballId, color);
+                this.setBallStyle(entry.ballId, style);
+                continue;
+            }
+            // New record, or its category moved to another gore
+            if (entry) this.retireBall(entry.ballId);
+            this.dataBalls.set(key, { ballId: this.addBallForGore(gore, color, style), gore });
         }
-        const hull = this.buildConvexHull2D(pts);
 
-        // Centroid for steering
-        let cx = 0, cy = 0;
-        for (const p of pts) { cx += p.x; cy += p.y; }
-        const center = new THREE.Vector2(cx / Math.max(1, pts.length), cy / Math.max(1, pts.length));
+        for (const [key, entry] of this.dataBalls) {
+            if (seen.has(key)) continue;
+            this.retireBall(entry.ballId);
+            this.dataBalls.delete(key);
+        }
+    }
 
-        // Build exclusion polygons from smaller-sphere gores projected into this gore's local space
-        const sphereRadius = gore.userData?.sphereRadius as number | undefined;
-        const exPolys = this.gatherExclusionPolys(gore, sphereRadius ?? Number.POSITIVE_INFINITY);
+    // Add a ball to a specific gore mesh with a given color; returns its id (`id` lets callers keep ids stable across respawns)
+    public addBallForGore(gore: THREE.Mesh, color: number, style: BallStyle & { id?: number } = {}): number {
+        const { hull, exPolys, center, tip } = this.goreRegion(gore);
 
         const root = new THREE.Group();
         root.userData.goreBall = true;
@@ -132,7 +315,13 @@ export class BallsManager {
             start = this.randomAllowedPointInside(hull, exPolys, center);
         }
 
+        const id = style.id ?? this.nextId;
+        this.nextId = Math.max(this.nextId, id + 1);
+        const size = Math.max(0.01, style.size ?? 1);
+        root.scale.setScalar(size);
+
         const ball: GoreBall = {
+            id,
             root,
             gore,
             color,
@@ -143,10 +332,13 @@ export class BallsManager {
             exPolys,
             coreMat,
             glowMat,
-            spawnTime: performance.now(),
-            fadeDuration: 900,   // ms
+            spawnTime: this.clock,
+            fadeDuration: 0.9,
             center,
-            wanderTheta: Math.random() * Math.PI * 2
+            wanderTheta: this.random() * Math.PI * 2,
+            size,
+            speed: Math.max(0, style.speed ?? 1),
+            glow: Math.max(0, style.glow ?? 1)
         };
 
         // Slight z lift to avoid coplanar artifacts
@@ -154,41 +346,163 @@ export class BallsManager {
         // Ensure proximity overlay exists (created once and reused)
         this.ensureProximityOverlay(gore);
         this.balls.push(ball);
+        return id;
+    }
+
+    // The gores were reshaped (e.g. a new projection): recompute regions and keep every ball inside its gore
+    public refreshRegions(): void {
+        this.regions.clear();
+        this.balls.forEach(b => {
+            const region = this.goreRegion(b.gore);
+            b.hull = region.hull;
+            b.exPolys = region.exPolys;
+            b.center = region.center;
+            if (!this.pointValidLocal(b.pos, b.hull, b.exPolys)) {
+                // Slide toward the centroid until allowed; fall back to any allowed point
+                const inside = this.pointValidLocal(b.center, b.hull, b.exPolys);
+                let lo = 0, hi = 1;
+                for (let i = 0; inside && i < 12; i++) {
+                    const mid = (lo + hi) / 2;
+                    if (this.pointValidLocal(b.pos.clone().lerp(b.center, mid), b.hull, b.exPolys)) hi = mid; else lo = mid;
+                }
+                if (inside) b.pos.lerp(b.center, hi);
+                else b.pos.copy(this.randomAllowedPointInside(b.hull, b.exPolys, b.center));
+            }
+            if (!this.pointValidLocal(b.target, b.hull, b.exPolys)) {
+                b.target = this.randomAllowedPointInside(b.hull, b.exPolys, b.center);
+            }
+            b.root.position.set(b.pos.x, b.pos.y, 0.001);
+            this.ensureProximityOverlay(b.gore);
+        });
+    }
+
+    // Hand every ball of `from` (e.g. a gore about to be removed) to `to`, keeping its scene position where `to`
+    // allows it; data-bound balls follow too
+    public rehomeBalls(from: THREE.Mesh, to: THREE.Mesh): void {
+        if (from === to) return;
+        from.updateWorldMatrix(true, false);
+        to.updateWorldMatrix(true, false);
+        let moved = false;
+        this.balls.forEach(b => {
+            if (b.gore !== from) return;
+            const local = to.worldToLocal(from.localToWorld(new THREE.Vector3(b.pos.x, b.pos.y, 0)));
+            from.remove(b.root);
+            to.add(b.root);
+            b.gore = to;
+            b.pos.set(local.x, local.y);
+            moved = true;
+        });
+        this.dataBalls.forEach(entry => {
+            if (entry.gore === from) entry.gore = to;
+        });
+        // Picks up the new region, slides the balls inside it and re-targets them
+        if (moved) this.refreshRegions();
+    }
+
+    private goreRegion(gore: THREE.Mesh): GoreRegion {
+        const cached = this.regions.get(gore);
+        if (cached) return cached;
+
+        const geometry = gore.geometry as THREE.BufferGeometry;
+        const posAttr = geometry.getAttribute('position') as THREE.BufferAttribute;
+
+        // tip = farthest vertex from center (0,0)
+        let maxL = -Infinity;
+        const tip = new THREE.Vector2();
+        for (let i = 0; i < posAttr.count; i++) {
+            const x = posAttr.getX(i);
+            const y = posAttr.getY(i);
+            const l = x * x + y * y;
+            if (l > maxL) { maxL = l; tip.set(x, y); }
+        }
+
+        // Current hull (local XY)
+        const pts: THREE.Vector2[] = [];
+        for (let i = 0; i < posAttr.count; i++) {
+            pts.push(new THREE.Vector2(posAttr.getX(i), posAttr.getY(i)));
+        }
+        const hull = this.buildConvexHull2D(pts);
+
+        // Centroid for steering
+        let cx = 0, cy = 0;
+        for (const p of pts) { cx += p.x; cy += p.y; }
+        const center = new THREE.Vector2(cx / Math.max(1, pts.length), cy / Math.max(1, pts.length));
+
+        // Build exclusion polygons from smaller-sphere gores projected into this gore's local space
+        const sphereRadius = gore.userData?.sphereRadius as number | undefined;
+        const exPolys = this.gatherExclusionPolys(gore, sphereRadius ?? Number.POSITIVE_INFINITY);
+
+        const region = { hull, exPolys, center, tip };
+        this.regions.set(gore, region);
+        return region;
     }
 
     public update(dt: number): void {
         if (!this.active || this.balls.length === 0) return;
-        const now = performance.now();
+        if (this.frozen) {
+            this.balls.forEach(b => { b.coreMat.opacity = 1.0; b.glowMat.opacity = Math.min(1, 0.35 * b.glow); });
+            this.updateProximityGlows();
+            return;
+        }
+        if (this.fixedStep > 0) {
+            this.stepRemainder += dt;
+            let steps = 0;
+            while (this.stepRemainder >= this.fixedStep && steps < BallsManager.MAX_STEPS_PER_UPDATE) {
+                this.integrate(this.fixedStep);
+                this.stepRemainder -= this.fixedStep;
+                steps++;
+            }
+            // Drop time we could not catch up on (e.g. after a long tab suspension)
+            if (steps === BallsManager.MAX_STEPS_PER_UPDATE) this.stepRemainder = 0;
+        } else {
+            this.integrate(dt);
+        }
 
-        for (const b of this.balls) {
+        // After updating all balls, update proximity glow overlays with current hotspots
+        this.updateProximityGlows();
+    }
+
+    private integrate(dt: number): void {
+        this.clock += dt;
+        const forces = this.interactionForces();
+
+        for (let bi = 0; bi < this.balls.length; bi++) {
+            const b = this.balls[bi];
             // 1) Fade-in core and glow with smooth easing
-            const t = Math.min(1, (now - b.spawnTime) / b.fadeDuration);
-            const ease = t * t * (3 - 2 * t);
+            const t = Math.min(1, (this.clock - b.spawnTime) / b.fadeDuration);
+            let ease = t * t * (3 - 2 * t);
+            if (b.fadeOutStart !== undefined) {
+                const u = Math.min(1, (this.clock - b.fadeOutStart) / b.fadeDuration);
+                ease *= 1 - u * u * (3 - 2 * u);
+            }
             b.coreMat.opacity = 1.0 * ease;
-            b.glowMat.opacity = 0.35 * ease;
+            b.glowMat.opacity = Math.min(1, 0.35 * b.glow * ease);
 
             // 2) Choose a new target occasionally or when reaching current
             const toTarget = b.target.clone().sub(b.pos);
-            if (toTarget.length() < 0.08 || Math.random() < 0.005) {
+            if (toTarget.length() < 0.08 || this.random() < 0.005) {
                 b.target = this.randomAllowedPointInside(b.hull, b.exPolys, b.center);
             }
 
             // Wander heading + seek target
-            b.wanderTheta += (Math.random() - 0.5) * 0.6 * dt;
+            b.wanderTheta += (this.random() - 0.5) * 0.6 * dt;
             const wanderDir = new THREE.Vector2(Math.cos(b.wanderTheta), Math.sin(b.wanderTheta));
             const seekDir = b.target.clone().sub(b.pos).normalize();
 
             // Blend directions and set desired speed
-            const desired = seekDir.multiplyScalar(0.18).addScaledVector(wanderDir, 0.06);
+            const desired = seekDir.multiplyScalar(0.18 * b.speed).addScaledVector(wanderDir, 0.06 * b.speed);
             // Move velocity toward desired smoothly
             b.vel.lerp(desired, 0.8 * dt);
 
             // Mild jitter
-            b.vel.addScaledVector(this.randomVelocity(0, 0.03), 0.5 * dt);
+            b.vel.addScaledVector(this.randomVelocity(0, 0.03 * b.speed), 0.5 * dt);
+
+            // Push/pull from nearby balls
+            if (forces) b.vel.addScaledVector(forces[bi], dt);
 
             // Clamp speed
             const sp = b.vel.length();
-            const minS = 0.05, maxS = 0.22;
+            const minS = 0.05 * b.speed, maxS = 0.22 * b.speed;
             if (sp > maxS) b.vel.multiplyScalar(maxS / sp);
             if (sp < minS) b.vel.multiplyScalar((minS + 1e-6) / Math.max(sp, 1e-6));
 
@@ -196,6 +510,8 @@ export class BallsManager {
             const proposed = b.pos.clone().addScaledVector(b.vel, dt);
             if (this.pointValidLocal(proposed, b.hull, b.exPolys)) {
                 b.pos.copy(proposed);
+            } else if (this.sim.migrate && this.migrate(b, proposed)) {
+                // Crossed into the neighbouring gore; pos/vel are now in its local space
             } else {
                 // steer slightly inward then clamp along segment inside allowed region
                 const inward = b.center.clone().sub(b.pos).normalize().multiplyScalar(0.12);
@@ -215,10 +531,128 @@ export class BallsManager {
 
             // Maintain slight z offset
             b.root.position.set(b.pos.x, b.pos.y, 0.001);
+            if (this.sim.trails) this.updateTrail(b);
         }
 
-        // After updating all balls, update proximity glow overlays with current hotspots
-        this.updateProximityGlows();
+        // Drop retired balls once their fade-out finished
+        const done = this.balls.filter(b => b.fadeOutStart !== undefined && this.clock - b.fadeOutStart >= b.fadeDuration);
+        if (done.length > 0) {
+            done.forEach(b => this.disposeBall(b));
+            this.balls = this.balls.filter(b => !done.includes(b));
+        }
+    }
+
+    // World-space forces between balls, expressed in each ball's gore-local XY; null when switched off
+    private interactionForces(): THREE.Vector2[] | null {
+        const { interaction, strength, radius } = this.sim;
+        if (interaction === 'none' || this.balls.length < 2 || radius <= 0) return null;
+        const sign = interaction === 'repel' ? 1 : -1;
+        const world = this.balls.map(b => b.gore.localToWorld(new THREE.Vector3(b.pos.x, b.pos.y, 0)));
+        const acc = this.balls.map(() => new THREE.Vector3());
+        for (let i = 0; i < world.length; i++) {
+            for (let j = i + 1; j < world.length; j++) {
+                const d = world[i].clone().sub(world[j]);
+                const dist = d.length();
+                if (dist >= radius || dist < 1e-6) continue;
+                const f = d.multiplyScalar((sign * strength * (1 - dist / radius)) / dist);
+                acc[i].add(f);
+                acc[j].sub(f);
+            }
+        }
+        return this.balls.map((b, i) => {
+            const from = b.gore.worldToLocal(world[i].clone());
+            const to = b.gore.worldToLocal(world[i].clone().add(acc[i]));
+            return new THREE.Vector2(to.x - from.x, to.y - from.y);
+        });
+    }
+
+    // Hand the ball to the neighbouring gore (same sphere, index +-1) whose region contains `proposed`
+    private migrate(b: GoreBall, proposed: THREE.Vector2): boolean {
+        const siblings = (b.gore.parent?.children ?? []).filter(c => c.userData.isGore) as THREE.Mesh[];
+        const index = siblings.indexOf(b.gore);
+        if (index < 0 || siblings.length < 2) return false;
+        const worldPoint = b.gore.localToWorld(new THREE.Vector3(proposed.x, proposed.y, 0));
+        const worldAhead = b.gore.localToWorld(new THREE.Vector3(proposed.x + b.vel.x, proposed.y + b.vel.y, 0));
+
+        for (const step of [1, -1]) {
+            const next = siblings[(index + step + siblings.length) % siblings.length];
+            if (next === b.gore) continue;
+            const local = next.worldToLocal(worldPoint.clone());
+            const p = new THREE.Vector2(local.x, local.y);
+            const region = this.goreRegion(next);
+            if (!this.pointValidLocal(p, region.hull, region.exPolys)) continue;
+
+            const ahead = next.worldToLocal(worldAhead.clone());
+            b.gore.remove(b.root);
+            next.add(b.root);
+            b.gore = next;
+            b.hull = region.hull;
+            b.exPolys = region.exPolys;
+            b.center = region.center;
+            b.pos.copy(p);
+            b.vel.set(ahead.x - local.x, ahead.y - local.y);
+            b.wanderTheta = Math.atan2(b.vel.y, b.vel.x);
+            b.target = this.randomAllowedPointInside(region.hull, region.exPolys, region.center);
+            this.ensureProximityOverlay(next);
+            return true;
+        }
+        return false;
+    }
+
+    // Append the ball's current position (outside the gore, so trails survive gore changes) and refade the line
+    private updateTrail(b: GoreBall): void {
+        const n = this.sim.trailLength;
+        if (!b.trail) {
+            const geom = new THREE.BufferGeometry();
+            geom.setAttribute('position', new THREE.BufferAttribute(new Float32Array(n * 3), 3));
+            geom.setAttribute('color', new THREE.BufferAttribute(new Float32Array(n * 4), 4));
+            const mat = new THREE.LineBasicMaterial({
+                vertexColors: true,
+                transparent: true,
+                blending: THREE.AdditiveBlending,
+                depthTest: false,
+                depthWrite: false
+            });
+            const line = new THREE.Line(geom, mat);
+            line.frustumCulled = false;
+            line.renderOrder = 99999; // just under the balls
+            this.scene.add(line);
+            b.trail = { line, points: [] };
+        }
+        const trail = b.trail;
+        const world = b.gore.localToWorld(new THREE.Vector3(b.pos.x, b.pos.y, 0.001));
+        // Relative to wherever scene.add put the line (BackgroundMobile adds under its scaled root)
+        trail.points.unshift((trail.line.parent ?? this.scene).worldToLocal(world));
+        if (trail.points.length > n) trail.points.length = n;
+
+        const geom = trail.line.geometry as THREE.BufferGeometry;
+        let posAttr = geom.getAttribute('position') as THREE.BufferAttribute;
+        let colAttr = geom.getAttribute('color') as THREE.BufferAttribute;
+        if (posAttr.count !== n) {
+            // trailLength changed
+            posAttr = new THREE.BufferAttribute(new Float32Array(n * 3), 3);
+            colAttr = new THREE.BufferAttribute(new Float32Array(n * 4), 4);
+            geom.setAttribute('position', posAttr);
+            geom.setAttribute('color', colAttr);
+        }
+        const c = new THREE.Color(b.color);
+        const count = trail.points.length;
+        trail.points.forEach((p, k) => {
+            posAttr.setXYZ(k, p.x, p.y, p.z);
+            const fade = 1 - k / Math.max(1, count - 1);
+            colAttr.setXYZW(k, c.r, c.g, c.b, 0.6 * fade * b.coreMat.opacity);
+        });
+        posAttr.needsUpdate = true;
+        colAttr.needsUpdate = true;
+        geom.setDrawRange(0, count);
+    }
+
+    private disposeTrail(b: GoreBall): void {
+        if (!b.trail) return;
+        b.trail.line.removeFromParent();
+        b.trail.line.geometry.dispose();
+        (b.trail.line.material as THREE.Material).dispose();
+        b.trail = undefined;
     }
 
     // Create or fetch an additive glow overlay Mesh attached to this gore
@@ -300,6 +734,14 @@ export class BallsManager {
             if (arr.length < BallsManager.MAX_HOTS) arr.push(b.pos.clone());
         }
 
+        // Switch off overlays of gores that lost their last ball
+        for (const gore of this.glowGores) {
+            if (map.has(gore)) continue;
+            const overlay = (gore as any).userData?.proximityOverlay as { mesh: THREE.Mesh, mat: THREE.ShaderMaterial } | undefined;
+            if (overlay) overlay.mat.uniforms.uCount.value = 0;
+        }
+        this.glowGores = new Set(map.keys());
+
         // Update or create overlays and feed uniforms
         for (const [gore, positions] of map) {
             const overlay = this.ensureProximityOverlay(gore);
@@ -428,12 +870,12 @@ export class BallsManager {
     private randomPointInsideHull(hull: THREE.Vector2[], centroid: THREE.Vector2): THREE.Vector2 {
         if (hull.length < 3) return centroid.clone();
         // Build fan triangles (centroid, hull[i], hull[i+1])
-        const idx = Math.floor(Math.random() * hull.length);
+        const idx = Math.floor(this.random() * hull.length);
         const a = centroid;
         const b = hull[idx];
         const c = hull[(idx + 1) % hull.length];
         // Random barycentric
-        let u = Math.random(), v = Math.random();
+        let u = this.random(), v = this.random();
         if (u + v > 1) { u = 1 - u; v = 1 - v; }
         return new THREE.Vector2(
             a.x + u * (b.x - a.x) + v * (c.x - a.x),
@@ -459,8 +901,8 @@ export class BallsManager {
     }
 
     private randomVelocity(min: number, max: number): THREE.Vector2 {
-        const a = Math.random() * Math.PI * 2;
-        const s = min + Math.random() * Math.max(0, max - min);
+        const a = this.random() * Math.PI * 2;
+        const s = min + this.random() * Math.max(0, max - min);
         return new THREE.Vector2(Math.cos(a) * s, Math.sin(a) * s);
     }
 }
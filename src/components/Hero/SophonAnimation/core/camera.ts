@@ -0,0 +1,18 @@
+// Named views of the hero. The view is expressed the way the drag controls already drive it:
+// scene rotation around X/Y plus the camera distance on Z.
+
+export type CameraView = { rotationX: number; rotationY: number; distance: number };
+
+export type CameraPresetName = 'front' | 'top-down' | 'three-quarter';
+
+export const CAMERA_PRESETS: Record<CameraPresetName, CameraView> = {
+    'front': { rotationX: 0, rotationY: 0, distance: 14 },
+    'top-down': { rotationX: Math.PI / 2, rotationY: 0, distance: 16 },
+    'three-quarter': { rotationX: 0.45, rotationY: -Math.PI / 5, distance: 16 },
+};
+
+// Wrap an angle into (-PI, PI] so transitions take the short way round after long auto-orbits
+export function wrapAngle(a: number): number {
+    const t = (a + Math.PI) % (Math.PI * 2);
+    return (t <= 0 ? t + Math.PI * 2 : t) - Math.PI;
+}
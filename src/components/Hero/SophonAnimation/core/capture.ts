@@ -0,0 +1,71 @@
+// Offline capture helpers. The hero is stepped on a virtual clock by Background; these only turn the
+// rendered canvas into PNG frames or a WebM stream.
+
+export type CaptureFormat = 'png' | 'webm';
+
+export type CaptureOptions = {
+    format?: CaptureFormat;      // default 'png'
+    width?: number;              // output size in pixels; defaults to the current canvas size
+    height?: number;
+    fps?: number;                // default 60
+    start?: number;              // timeline seconds; default 0
+    duration?: number;           // seconds; default: until the unwrap settles
+    mimeType?: string;           // webm only, e.g. 'video/webm;codecs=vp9'
+    videoBitsPerSecond?: number; // webm only
+    // Called for every PNG frame as it is produced (lets callers stream frames instead of holding them)
+    onFrame?: (frame: Blob, index: number) => void;
+    onProgress?: (progress: number) => void;
+};
+
+export type CaptureResult = { frames: Blob[]; video?: Blob };
+
+export function canvasToPng(canvas: HTMLCanvasElement): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Canvas frame could not be encoded'))), 'image/png');
+    });
+}
+
+const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// Records a canvas frame-by-frame: each pushFrame() hands exactly one rendered frame to MediaRecorder.
+// MediaRecorder timestamps frames by wall clock, so frames are paced at 1/fps (see nextSlot) to keep the video timing.
+export class WebmRecorder {
+    private recorder: MediaRecorder;
+    private track: CanvasCaptureMediaStreamTrack;
+    private chunks: Blob[] = [];
+    private frameMs: number;
+    private lastPush = 0;
+
+    constructor(canvas: HTMLCanvasElement, fps: number, mimeType?: string, videoBitsPerSecond?: number) {
+        if (typeof MediaRecorder === 'undefined' || typeof canvas.captureStream !== 'function') {
+            throw new Error('WebM capture needs MediaRecorder and canvas.captureStream');
+        }
+        const stream = canvas.captureStream(0);
+        this.track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+        const type = mimeType ?? ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'].find(t => MediaRecorder.isTypeSupported(t));
+        this.recorder = new MediaRecorder(stream, { mimeType: type, videoBitsPerSecond });
+        this.recorder.ondataavailable = (e) => { if (e.data.size > 0) this.chunks.push(e.data); };
+        this.frameMs = 1000 / fps;
+        this.recorder.start();
+    }
+
+    // Await before rendering a frame; the drawing buffer may be cleared once the browser composites,
+    // so render and pushFrame() must then run in the same task
+    public async nextSlot(): Promise<void> {
+        const since = performance.now() - this.lastPush;
+        if (this.lastPush > 0 && since < this.frameMs) await wait(this.frameMs - since);
+    }
+
+    public pushFrame(): void {
+        this.track.requestFrame();
+        this.lastPush = performance.now();
+    }
+
+    public finish(): Promise<Blob> {
+        return new Promise(resolve => {
+            this.recorder.onstop = () => resolve(new Blob(this.chunks, { type: this.recorder.mimeType || 'video/webm' }));
+            // Let the last frame stay on screen for a full frame before stopping
+            setTimeout(() => this.recorder.stop(), this.frameMs);
+        });
+    }
+}
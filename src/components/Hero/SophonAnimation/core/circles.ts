@@ -1,149 +1,123 @@
 import * as THREE from 'three';
 
-export function getEyePoints(si: number): THREE.Vector3[] {
+// Eye outline for a sphere: the outermost sphere draws the almond, the innermost the vertical pupil,
+// any spheres in between the round iris. Sizes scale with the sphere radius.
+export function getEyePoints(si: number, sphereCount: number, radius: number): THREE.Vector3[] {
     const segments = 64;
     const points: THREE.Vector3[] = [];
+    let rx: number, rz: number;
     if (si === 0) {
-        for (let i = 0; i <= segments; i++) {
-            const angle = (i / segments) * Math.PI * 2;
-            const x = 4.5 * Math.cos(angle);
-            const y = 0;
-            const z = 1.5 * Math.sin(angle);
-            points.push(new THREE.Vector3(x, y, z));
-        }
-    } else if (si === 1) {
-        for (let i = 0; i <= segments; i++) {
-            const angle = (i / segments) * Math.PI * 2;
-            const x = 1.2 * Math.cos(angle);
-            const y = 0;
-            const z = 1.2 * Math.sin(angle);
-            points.push(new THREE.Vector3(x, y, z));
-        }
+        rx = radius * (4.5 / 2.2);
+        rz = radius * (1.5 / 2.2);
+    } else if (si < sphereCount - 1) {
+        rx = radius * (1.2 / 1.4);
+        rz = rx;
     } else {
-        for (let i = 0; i <= segments; i++) {
-            const angle = (i / segments) * Math.PI * 2;
-            const x = 0.375 * Math.cos(angle);
-            const y = 0;
-            const z = 0.75 * Math.sin(angle);
-            points.push(new THREE.Vector3(x, y, z));
-        }
+        rx = radius * 0.5;
+        rz = radius;
+    }
+    for (let i = 0; i <= segments; i++) {
+        const angle = (i / segments) * Math.PI * 2;
+        points.push(new THREE.Vector3(rx * Math.cos(angle), 0, rz * Math.sin(angle)));
     }
     return points;
 }
 
-export type CircleOutlineParts = { core: THREE.Line; innerGlow: THREE.Line; outerGlow: THREE.Line; ultraGlow: THREE.Line; superGlow: THREE.Line };
+export type CirclePalette = { core: number; innerGlow: number; outerGlow: number; ultraGlow: number; superGlow: number };
 
-export function createCircleOutline(
-    si: number,
-    sphereY: number,
-    cfgRadius: number,
-    eyeToCircleProgress: number,
-    circleDrawProgress: number,
-    unwrappingT: number
-): CircleOutlineParts {
-    const coreColor = 0xffffff;
-    const innerGlowColor = 0xe6f6ff;
-    const outerGlowColor = 0x9edfff;
-    const ultraGlowColor = 0x4d94ff; // Softer blue for outer halo
-    const superGlowColor = 0x1a4d7a; // Deeper blue for super halo
+export const DEFAULT_CIRCLE_PALETTE: CirclePalette = {
+    core: 0xffffff,
+    innerGlow: 0xe6f6ff,
+    outerGlow: 0x9edfff,
+    ultraGlow: 0x4d94ff, // Softer blue for outer halo
+    superGlow: 0x1a4d7a, // Deeper blue for super halo
+};
 
-    const circleRadius = cfgRadius * 1.07;
-    const circleSegments = 64;
-    const eyePoints = getEyePoints(si);
-    const circlePoints: THREE.Vector3[] = [];
-    for (let i = 0; i <= circleSegments; i++) {
-        const angle = (i / circleSegments) * Math.PI * 2;
-        const x = circleRadius * Math.cos(angle);
-        const z = circleRadius * Math.sin(angle);
-        circlePoints.push(new THREE.Vector3(x, 0, z));
-    }
-    const basePoints = eyePoints.map((eye, i) => eye.clone().lerp(circlePoints[i], eyeToCircleProgress));
+// Core line plus four additive halos, each a slightly larger copy of the same outline
+const CIRCLE_LAYERS: Array<{ color: keyof CirclePalette; scale: number; opacity: number; additive: boolean; renderOrder: number }> = [
+    { color: 'core', scale: 1.01, opacity: 1.0, additive: false, renderOrder: 9999 },
+    { color: 'innerGlow', scale: 1.02, opacity: 0.7, additive: true, renderOrder: 9998 },
+    { color: 'outerGlow', scale: 1.04, opacity: 0.5, additive: true, renderOrder: 9997 },
+    { color: 'ultraGlow', scale: 1.06, opacity: 0.3, additive: true, renderOrder: 9996 },
+    // Super glow for the outer halo
+    { color: 'superGlow', scale: 1.08, opacity: 0.25, additive: true, renderOrder: 9995 },
+];
 
-    const circleY = sphereY;
+const CIRCLE_SEGMENTS = 64;
 
-    // Single core line with slight scale and high opacity for thickness
-    const corePoints = basePoints.map(p => new THREE.Vector3(p.x * 1.01, p.y, p.z * 1.01));
-    const coreGeometry = new THREE.BufferGeometry().setFromPoints(corePoints);
-    const coreMaterial = new THREE.LineBasicMaterial({
-        color: coreColor,
-        transparent: true,
-        opacity: 1.0 * circleDrawProgress,
-        depthTest: false,
-        depthWrite: false,
-        linewidth: 4,
-    });
-    const coreLine = new THREE.Line(coreGeometry, coreMaterial);
-    coreLine.position.set(0, circleY, 0);
-    coreLine.rotation.x = Math.PI / 2;
-    coreLine.renderOrder = 9999;
+// Eye/circle outline of one sphere. The five lines are built once; update() morphs the eye into the
+// circle by rewriting vertex positions and material opacity/color in place.
+export class CircleOutline {
+    public readonly lines: THREE.Line<THREE.BufferGeometry, THREE.LineBasicMaterial>[];
+    private eye: Float32Array;
+    private circle: Float32Array;
 
-    // Inner glow with increased opacity
-    const innerGlowPoints = basePoints.map(p => new THREE.Vector3(p.x * 1.02, p.y, p.z * 1.02));
-    const innerGlowGeom = new THREE.BufferGeometry().setFromPoints(innerGlowPoints);
-    const innerGlowMat = new THREE.LineBasicMaterial({
-        color: innerGlowColor,
-        transparent: true,
-        opacity: 0.7 * circleDrawProgress, // Increased from 0.6
-        blending: THREE.AdditiveBlending,
-        depthTest: false,
-        depthWrite: false,
-        linewidth: 4,
-    });
-    const innerGlow = new THREE.Line(innerGlowGeom, innerGlowMat);
-    innerGlow.position.set(0, circleY, 0);
-    innerGlow.rotation.x = Math.PI / 2;
-    innerGlow.renderOrder = 9998;
+    constructor(si: number, sphereCount: number, cfgRadius: number) {
+        const eyePoints = getEyePoints(si, sphereCount, cfgRadius);
+        const circleRadius = cfgRadius * 1.07;
+        this.eye = new Float32Array((CIRCLE_SEGMENTS + 1) * 2);
+        this.circle = new Float32Array((CIRCLE_SEGMENTS + 1) * 2);
+        for (let i = 0; i <= CIRCLE_SEGMENTS; i++) {
+            const angle = (i / CIRCLE_SEGMENTS) * Math.PI * 2;
+            this.eye[i * 2] = eyePoints[i].x;
+            this.eye[i * 2 + 1] = eyePoints[i].z;
+            this.circle[i * 2] = circleRadius * Math.cos(angle);
+            this.circle[i * 2 + 1] = circleRadius * Math.sin(angle);
+        }
+        this.lines = CIRCLE_LAYERS.map(layer => {
+            const geometry = new THREE.BufferGeometry();
+            geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array((CIRCLE_SEGMENTS + 1) * 3), 3));
+            const material = new THREE.LineBasicMaterial({
+                transparent: true,
+                blending: layer.additive ? THREE.AdditiveBlending : THREE.NormalBlending,
+                depthTest: false,
+                depthWrite: false,
+                linewidth: 4,
+            });
+            const line = new THREE.Line(geometry, material);
+            line.rotation.x = Math.PI / 2;
+            line.renderOrder = layer.renderOrder;
+            line.visible = false;
+            return line;
+        });
+        this.core.userData.circleCore = true;
+    }
 
-    // Outer glow with increased opacity
-    const outerGlowPoints = basePoints.map(p => new THREE.Vector3(p.x * 1.04, p.y, p.z * 1.04));
-    const outerGlowGeom = new THREE.BufferGeometry().setFromPoints(outerGlowPoints);
-    const outerGlowMat = new THREE.LineBasicMaterial({
-        color: outerGlowColor,
-        transparent: true,
-        opacity: 0.5 * circleDrawProgress, // Increased from 0.4
-        blending: THREE.AdditiveBlending,
-        depthTest: false,
-        depthWrite: false,
-        linewidth: 4,
-    });
-    const outerGlow = new THREE.Line(outerGlowGeom, outerGlowMat);
-    outerGlow.position.set(0, circleY, 0);
-    outerGlow.rotation.x = Math.PI / 2;
-    outerGlow.renderOrder = 9997;
+    public get core(): THREE.Line<THREE.BufferGeometry, THREE.LineBasicMaterial> {
+        return this.lines[0];
+    }
 
-    // Ultra glow with increased opacity
-    const ultraGlowPoints = basePoints.map(p => new THREE.Vector3(p.x * 1.06, p.y, p.z * 1.06));
-    const ultraGlowGeom = new THREE.BufferGeometry().setFromPoints(ultraGlowPoints);
-    const ultraGlowMat = new THREE.LineBasicMaterial({
-        color: ultraGlowColor,
-        transparent: true,
-        opacity: 0.3 * circleDrawProgress, // Increased from 0.2
-        blending: THREE.AdditiveBlending,
-        depthTest: false,
-        depthWrite: false,
-        linewidth: 4,
-    });
-    const ultraGlow = new THREE.Line(ultraGlowGeom, ultraGlowMat);
-    ultraGlow.position.set(0, circleY, 0);
-    ultraGlow.rotation.x = Math.PI / 2;
-    ultraGlow.renderOrder = 9996;
+    public update(sphereY: number, eyeToCircleProgress: number, circleDrawProgress: number, palette: CirclePalette = DEFAULT_CIRCLE_PALETTE): void {
+        const t = eyeToCircleProgress;
+        this.lines.forEach((line, li) => {
+            const layer = CIRCLE_LAYERS[li];
+            const attr = line.geometry.getAttribute('position') as THREE.BufferAttribute;
+            const out = attr.array as Float32Array;
+            for (let i = 0; i <= CIRCLE_SEGMENTS; i++) {
+                const x = this.eye[i * 2] + (this.circle[i * 2] - this.eye[i * 2]) * t;
+                const z = this.eye[i * 2 + 1] + (this.circle[i * 2 + 1] - this.eye[i * 2 + 1]) * t;
+                out[i * 3] = x * layer.scale;
+                out[i * 3 + 1] = 0;
+                out[i * 3 + 2] = z * layer.scale;
+            }
+            attr.needsUpdate = true;
+            line.geometry.boundingSphere = null;
+            line.material.color.setHex(palette[layer.color]);
+            line.material.opacity = layer.opacity * circleDrawProgress;
+            line.position.set(0, sphereY, 0);
+            line.visible = true;
+        });
+    }
 
-    // New super glow layer for enhanced outer halo
-    const superGlowPoints = basePoints.map(p => new THREE.Vector3(p.x * 1.08, p.y, p.z * 1.08));
-    const superGlowGeom = new THREE.BufferGeometry().setFromPoints(superGlowPoints);
-    const superGlowMat = new THREE.LineBasicMaterial({
-        color: superGlowColor,
-        transparent: true,
-        opacity: 0.25 * circleDrawProgress,
-        blending: THREE.AdditiveBlending,
-        depthTest: false,
-        depthWrite: false,
-        linewidth: 4,
-    });
-    const superGlow = new THREE.Line(superGlowGeom, superGlowMat);
-    superGlow.position.set(0, circleY, 0);
-    superGlow.rotation.x = Math.PI / 2;
-    superGlow.renderOrder = 9995;
+    public setVisible(visible: boolean): void {
+        this.lines.forEach(line => { line.visible = visible; });
+    }
 
-    return { core: coreLine, innerGlow, outerGlow, ultraGlow, superGlow };
-}
\ No newline at end of file
+    public dispose(): void {
+        this.lines.forEach(line => {
+            line.removeFromParent();
+            line.geometry.dispose();
+            line.material.dispose();
+        });
+    }
+}
@@ -0,0 +1,93 @@
+import * as THREE from 'three';
+
+// Static Canvas2D stand-in used when the browser cannot give us a WebGL context
+// (disabled GPU, blocklisted driver, headless). The hero timeline keeps running on the
+// scene graph so stage words, callbacks and events behave the same; only drawing changes.
+
+// WebGL2 first (linewidth support), then WebGL1; null when neither is available
+export function createWebGLContext(canvas: HTMLCanvasElement): WebGLRenderingContext | null {
+    try {
+        return (canvas.getContext('webgl2') || canvas.getContext('webgl')) as WebGLRenderingContext | null;
+    } catch {
+        return null;
+    }
+}
+
+export type FallbackGore = { outline: THREE.Vector3[]; color: number };
+
+export class FallbackRenderer {
+    public readonly domElement: HTMLCanvasElement;
+    private ctx: CanvasRenderingContext2D | null;
+    private camera: THREE.Camera;
+    private gores: FallbackGore[] = [];
+    private strokeColor = 0xffffff;
+    private width = 1;
+    private height = 1;
+
+    constructor(camera: THREE.Camera) {
+        this.camera = camera;
+        this.domElement = document.createElement('canvas');
+        this.domElement.style.display = 'block';
+        this.domElement.style.opacity = '0';
+        this.domElement.style.transition = 'opacity 1.2s ease';
+        this.ctx = this.domElement.getContext('2d');
+    }
+
+    public setSize(width: number, height: number): void {
+        const dpr = Math.min(window.devicePixelRatio || 1, 2);
+        this.width = Math.max(1, width);
+        this.height = Math.max(1, height);
+        this.domElement.width = Math.round(this.width * dpr);
+        this.domElement.height = Math.round(this.height * dpr);
+        this.domElement.style.width = `${this.width}px`;
+        this.domElement.style.height = `${this.height}px`;
+        this.ctx?.setTransform(dpr, 0, 0, dpr, 0, 0);
+        this.draw();
+    }
+
+    // Gores in world space, painted in order (outermost sphere first)
+    public setLayout(gores: FallbackGore[], strokeColor: number): void {
+        this.gores = gores;
+        this.strokeColor = strokeColor;
+        this.draw();
+    }
+
+    // Fades the layout in/out (shown once the unwrap would have finished)
+    public setVisible(visible: boolean): void {
+        this.domElement.style.opacity = visible ? '1' : '0';
+    }
+
+    public dispose(): void {
+        this.gores = [];
+        this.domElement.remove();
+    }
+
+    private draw(): void {
+        const ctx = this.ctx;
+        if (!ctx) return;
+        ctx.clearRect(0, 0, this.width, this.height);
+        this.camera.updateMatrixWorld();
+        const hex = (c: number) => `#${c.toString(16).padStart(6, '0')}`;
+        const p = new THREE.Vector3();
+
+        ctx.lineJoin = 'round';
+        ctx.lineWidth = 1;
+        for (const gore of this.gores) {
+            ctx.beginPath();
+            gore.outline.forEach((v, i) => {
+                p.copy(v).project(this.camera);
+                const x = (p.x + 1) / 2 * this.width;
+                const y = (1 - p.y) / 2 * this.height;
+                if (i === 0) ctx.moveTo(x, y); else ctx.lineTo(x, y);
+            });
+            ctx.closePath();
+            ctx.globalAlpha = 0.85;
+            ctx.fillStyle = hex(gore.color);
+            ctx.fill();
+            ctx.globalAlpha = 0.6;
+            ctx.strokeStyle = hex(this.strokeColor);
+            ctx.stroke();
+        }
+        ctx.globalAlpha = 1;
+    }
+}
@@ -0,0 +1,44 @@
+// Rolling frame-time statistics for profiling on real devices: CPU time spent preparing and submitting each
+// frame, plus the JS heap where the browser exposes it (Chromium's performance.memory) as a GC-pressure hint.
+
+export type FrameStatsSnapshot = {
+    frames: number;   // samples in the window
+    avgMs: number;
+    p95Ms: number;
+    maxMs: number;
+    heapMB?: number;
+};
+
+export class FrameStats {
+    private samples: Float32Array;
+    private count = 0;
+    private next = 0;
+
+    constructor(windowSize = 300) {
+        this.samples = new Float32Array(Math.max(1, windowSize));
+    }
+
+    public record(ms: number): void {
+        this.samples[this.next] = ms;
+        this.next = (this.next + 1) % this.samples.length;
+        this.count = Math.min(this.count + 1, this.samples.length);
+    }
+
+    public snapshot(): FrameStatsSnapshot {
+        const window = Array.from(this.samples.subarray(0, this.count)).sort((a, b) => a - b);
+        const sum = window.reduce((acc, v) => acc + v, 0);
+        const memory = (performance as Performance & { memory?: { usedJSHeapSize: number } }).memory;
+        return {
+            frames: window.length,
+            avgMs: window.length > 0 ? sum / window.length : 0,
+            p95Ms: window.length > 0 ? window[Math.min(window.length - 1, Math.floor(window.length * 0.95))] : 0,
+            maxMs: window.length > 0 ? window[window.length - 1] : 0,
+            heapMB: memory ? memory.usedJSHeapSize / (1024 * 1024) : undefined,
+        };
+    }
+
+    public reset(): void {
+        this.count = 0;
+        this.next = 0;
+    }
+}
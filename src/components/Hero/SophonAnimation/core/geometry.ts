@@ -1,7 +1,19 @@
 import * as THREE from 'three';
+import { DEFAULT_GORE_PROJECTION, projectGorePoint, type GoreProjectionContext, type GoreProjectionMix } from './projections';
 
 export type GridMode = 'rectangular' | 'minimal' | 'triangular' | 'radial';
 
+// Lattice metadata createGoreGeometry stores in geometry.userData
+export interface GoreLatticeData {
+    latCount: number;
+    lonCount: number;
+    gridMode: GridMode;
+    detail: number;
+}
+
+const SINGLE_PROJECTION: GoreProjectionMix = { from: DEFAULT_GORE_PROJECTION, to: DEFAULT_GORE_PROJECTION, t: 1 };
+const flatPoint = new THREE.Vector3();
+
 export function lerp(a: number, b: number, t: number): number {
     return a + (b - a) * t;
 }
@@ -10,83 +22,75 @@ export function easeInOutCubic(t: number): number {
     return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
 }
 
-export function createGoreGeometry(
+// Lattice resolution per grid mode (steps, so a gore has (latitudeSteps + 1) * (longitudeSteps + 1) vertices);
+// `detail` multiplies both step counts
+export function goreGridSize(gridMode: GridMode, detail = 1): { latitudeSteps: number; longitudeSteps: number } {
+    const k = Math.max(1, Math.round(detail));
+    if (gridMode === 'minimal') return { latitudeSteps: 3 * k, longitudeSteps: 2 * k };
+    if (gridMode === 'triangular') return { latitudeSteps: 20 * k, longitudeSteps: 10 * k };
+    if (gridMode === 'radial') return { latitudeSteps: 12 * k, longitudeSteps: 24 * k };
+    return { latitudeSteps: 16 * k, longitudeSteps: 8 * k };
+}
+
+// Write the gore's vertex positions (lat-major, local space) into `out` without allocating,
+// so live gores can be reshaped in place every frame. The flat shape comes from `projection` (see core/projections).
+// A fractional goreIndex places the gore between lattice slots (gore-count transitions).
+export function writeGorePositions(
+    out: Float32Array,
     goreIndex: number,
     unfoldProgress: number,
     sphereRadius: number,
     currentNumGores: number,
     transitionProgress: number,
-    gridMode: GridMode
-): THREE.BufferGeometry {
-    const points: THREE.Vector3[] = [];
-    const sphericalAngleStep = lerp(Math.PI * 2 / currentNumGores, Math.PI * 2 / 3, transitionProgress);
-    const startAngle = goreIndex * sphericalAngleStep;
-    const endAngle = (goreIndex + 1) * sphericalAngleStep;
-
-    let latitudeSteps: number, longitudeSteps: number;
-    if (gridMode === 'minimal') {
-        latitudeSteps = 3;
-        longitudeSteps = 2;
-    } else if (gridMode === 'triangular') {
-        latitudeSteps = 20;
-        longitudeSteps = 10;
-    } else if (gridMode === 'radial') {
-        latitudeSteps = 12;
-        longitudeSteps = 24;
-    } else {
-        latitudeSteps = 16;
-        longitudeSteps = 8;
-    }
-
-    const meridionalDistance = Math.PI * sphereRadius;
-    const flatYOffset = (-sphereRadius) - (-meridionalDistance / 2);
-    const flatAngleStep = lerp(Math.PI * 2 / currentNumGores, Math.PI * 2 / 3, transitionProgress);
-
+    gridMode: GridMode,
+    detail = 1,
+    projection: GoreProjectionMix = SINGLE_PROJECTION
+): void {
+    const angleStep = lerp(Math.PI * 2 / currentNumGores, Math.PI * 2 / 3, transitionProgress);
+    const { latitudeSteps, longitudeSteps } = goreGridSize(gridMode, detail);
+    const ctx: GoreProjectionContext = { goreIndex, angleStep, sphereRadius, gridMode };
+    const flat = flatPoint;
+
+    let k = 0;
     for (let lat = 0; lat <= latitudeSteps; lat++) {
         for (let lon = 0; lon <= longitudeSteps; lon++) {
-            const phi = (lat / latitudeSteps) * Math.PI;
-            const theta = startAngle + (lon / longitudeSteps) * (endAngle - startAngle);
+            const u = lon / longitudeSteps;
+            const v = lat / latitudeSteps;
+            const phi = v * Math.PI;
+            const theta = (goreIndex + u) * angleStep;
 
             const radius = Math.sin(phi);
             const x = sphereRadius * radius * Math.cos(theta);
-            const y = sphereRadius * Math.cos(phi);
+            const y = sphereRadius * Math.cos(phi) + sphereRadius;
             const z = sphereRadius * radius * Math.sin(theta);
 
-            const u = lon / longitudeSteps;
-            const v = lat / latitudeSteps;
-
-            const flatY = meridionalDistance * (0.5 - v) + flatYOffset;
-            const maxWidth = flatAngleStep * sphereRadius;
-
-            const latitudeFromEquator = Math.abs(phi - Math.PI / 2);
-            const tapering = Math.cos(latitudeFromEquator);
-
-            const edgeParameter = 2 * u - 1;
-            const concavity = gridMode === 'minimal' ? 0.1 : 0.3;
-            const concaveFactor = 1 - concavity * (1 - edgeParameter * edgeParameter);
+            projectGorePoint(projection, u, v, ctx, flat);
 
-            const currentWidth = maxWidth * tapering * concaveFactor;
-            let flatX = edgeParameter * currentWidth / 2;
-            let flatZ = 0;
-
-            if (gridMode === 'radial') {
-                const angle = (u - 0.5) * Math.PI;
-                const ringRadius = (1 - v) * (currentWidth / 2) * tapering;
-                flatX = Math.cos(angle) * ringRadius;
-                flatZ = Math.sin(angle) * ringRadius;
-            }
-
-            const finalX = (1 - unfoldProgress) * x + unfoldProgress * flatX;
-            const finalY = (1 - unfoldProgress) * y + unfoldProgress * flatY;
-            const finalZ = (1 - unfoldProgress) * z + unfoldProgress * flatZ;
-
-            const localY = finalY + sphereRadius;
-            points.push(new THREE.Vector3(finalX, localY, finalZ));
+            out[k++] = (1 - unfoldProgress) * x + unfoldProgress * flat.x;
+            out[k++] = (1 - unfoldProgress) * y + unfoldProgress * flat.y;
+            out[k++] = (1 - unfoldProgress) * z + unfoldProgress * flat.z;
         }
     }
+}
 
-    const geometry = new THREE.BufferGeometry().setFromPoints(points);
-    (geometry as any).userData = { latCount: latitudeSteps + 1, lonCount: longitudeSteps + 1 };
+export function createGoreGeometry(
+    goreIndex: number,
+    unfoldProgress: number,
+    sphereRadius: number,
+    currentNumGores: number,
+    transitionProgress: number,
+    gridMode: GridMode,
+    detail = 1,
+    projection: GoreProjectionMix = SINGLE_PROJECTION
+): THREE.BufferGeometry {
+    const { latitudeSteps, longitudeSteps } = goreGridSize(gridMode, detail);
+    const positions = new Float32Array((latitudeSteps + 1) * (longitudeSteps + 1) * 3);
+    writeGorePositions(positions, goreIndex, unfoldProgress, sphereRadius, currentNumGores, transitionProgress, gridMode, detail, projection);
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    const lattice: GoreLatticeData = { latCount: latitudeSteps + 1, lonCount: longitudeSteps + 1, gridMode, detail };
+    geometry.userData = lattice;
 
     const indices: number[] = [];
     for (let lat = 0; lat < latitudeSteps; lat++) {
@@ -113,7 +117,96 @@ export function createGoreGeometry(
     return geometry;
 }
 
-export function createGoreEdges(geometry: THREE.BufferGeometry, skipEdgeCreation: boolean): THREE.EdgesGeometry | null {
-    if (skipEdgeCreation) return null;
-    return new THREE.EdgesGeometry(geometry, 180);
+// Sphere (unfold 0) and flat (unfold 1) end shapes as the aSphere / aFlat attributes, plus the y range of each
+// (aTwistBounds: sphere min/max, flat min/max), so a vertex shader can do the unfold morph (see core/goreMorph)
+export function writeGoreMorphTargets(
+    geometry: THREE.BufferGeometry,
+    goreIndex: number,
+    sphereRadius: number,
+    currentNumGores: number,
+    transitionProgress: number,
+    gridMode: GridMode,
+    detail = 1,
+    projection: GoreProjectionMix = SINGLE_PROJECTION
+): void {
+    const count = geometry.getAttribute('position').count;
+    ([['aSphere', 0], ['aFlat', 1]] as const).forEach(([name, unfold]) => {
+        let attr = geometry.getAttribute(name) as THREE.BufferAttribute | undefined;
+        if (!attr || attr.count !== count) {
+            attr = new THREE.BufferAttribute(new Float32Array(count * 3), 3);
+            geometry.setAttribute(name, attr);
+        }
+        writeGorePositions(attr.array as Float32Array, goreIndex, unfold, sphereRadius, currentNumGores, transitionProgress, gridMode, detail, projection);
+        attr.needsUpdate = true;
+    });
+
+    let bounds = geometry.getAttribute('aTwistBounds') as THREE.BufferAttribute | undefined;
+    if (!bounds || bounds.count !== count) {
+        bounds = new THREE.BufferAttribute(new Float32Array(count * 4), 4);
+        geometry.setAttribute('aTwistBounds', bounds);
+    }
+    const yRange = (name: string) => {
+        const arr = (geometry.getAttribute(name) as THREE.BufferAttribute).array as Float32Array;
+        let min = Infinity, max = -Infinity;
+        for (let i = 1; i < arr.length; i += 3) {
+            if (arr[i] < min) min = arr[i];
+            if (arr[i] > max) max = arr[i];
+        }
+        return [min, max];
+    };
+    const [sMin, sMax] = yRange('aSphere');
+    const [fMin, fMax] = yRange('aFlat');
+    const out = bounds.array as Float32Array;
+    for (let i = 0; i < count; i++) out.set([sMin, sMax, fMin, fMax], i * 4);
+    bounds.needsUpdate = true;
+}
+
+// Boundary of a gore produced by createGoreGeometry (walks the lat/lon grid edge), in local space
+export function goreOutline(geometry: THREE.BufferGeometry): THREE.Vector3[] {
+    const pos = geometry.getAttribute('position') as THREE.BufferAttribute;
+    const { latCount, lonCount } = geometry.userData as GoreLatticeData;
+    const at = (lat: number, lon: number) => new THREE.Vector3().fromBufferAttribute(pos, lat * lonCount + lon);
+    const points: THREE.Vector3[] = [];
+    for (let lon = 0; lon < lonCount; lon++) points.push(at(0, lon));
+    for (let lat = 1; lat < latCount; lat++) points.push(at(lat, lonCount - 1));
+    for (let lon = lonCount - 2; lon >= 0; lon--) points.push(at(latCount - 1, lon));
+    for (let lat = latCount - 2; lat > 0; lat--) points.push(at(lat, 0));
+    return points;
+}
+
+// Wireframe grid of a gore as vertex-index pairs: lat/lon lines, plus the diagonals in triangular mode
+export function goreGridEdges(geometry: THREE.BufferGeometry, gridMode: GridMode): Array<[number, number]> {
+    const index = geometry.getIndex();
+    if (!index) return [];
+    const { lonCount } = geometry.userData as GoreLatticeData;
+    const seen = new Set<string>();
+    const edges: Array<[number, number]> = [];
+    const add = (a: number, b: number) => {
+        const lo = Math.min(a, b), hi = Math.max(a, b);
+        const key = `${lo}:${hi}`;
+        if (seen.has(key)) return;
+        const sameRow = Math.floor(lo / lonCount) === Math.floor(hi / lonCount);
+        const sameCol = lo % lonCount === hi % lonCount;
+        if (!sameRow && !sameCol && gridMode !== 'triangular') return;
+        seen.add(key);
+        edges.push([lo, hi]);
+    };
+    for (let i = 0; i < index.count; i += 3) {
+        const a = index.getX(i), b = index.getX(i + 1), c = index.getX(i + 2);
+        add(a, b); add(b, c); add(c, a);
+    }
+    return edges;
+}
+
+// Outline segments of a gore as vertex-index pairs, in the order EdgesGeometry(geometry, 180) emits them
+// for the lat/lon grid: the left and then the right meridian segment of each latitude row, top to bottom.
+// Pole rows collapse to a point, so the meridians are the whole visible boundary.
+export function goreBoundaryPairs(geometry: THREE.BufferGeometry): number[] {
+    const { latCount, lonCount } = geometry.userData as GoreLatticeData;
+    const pairs: number[] = [];
+    for (let lat = 0; lat < latCount - 1; lat++) {
+        pairs.push((lat + 1) * lonCount, lat * lonCount);
+        pairs.push(lat * lonCount + lonCount - 1, (lat + 1) * lonCount + lonCount - 1);
+    }
+    return pairs;
 }
@@ -0,0 +1,49 @@
+import * as THREE from 'three';
+
+// GPU unfolding path: gore geometries carry both end shapes (aSphere / aFlat, see writeGoreMorphTargets) and the
+// vertex shader blends them and applies the helical twist, so a pose change is a uniform update instead of a
+// rewrite of every vertex. The CPU twist (applyHelicalTwist) normalises height over the gore's current y range;
+// the shader blends the y ranges of the two end shapes (aTwistBounds), which is the same range whenever the same
+// vertices bound the gore at both ends (true for the fan layouts and the Goode map).
+
+export type GoreMorphUniforms = {
+    uUnfold: THREE.IUniform<number>;
+    uTwist: THREE.IUniform<number>;
+    uTwistTurns: THREE.IUniform<number>;
+};
+
+export function createGoreMorphUniforms(): GoreMorphUniforms {
+    return { uUnfold: { value: 0 }, uTwist: { value: 0 }, uTwistTurns: { value: 1 } };
+}
+
+const MORPH_DECLARATIONS = `
+attribute vec3 aSphere;
+attribute vec3 aFlat;
+attribute vec4 aTwistBounds;
+uniform float uUnfold;
+uniform float uTwist;
+uniform float uTwistTurns;
+`;
+
+const MORPH_VERTEX = `
+    transformed = mix(aSphere, aFlat, uUnfold);
+    float morphMin = mix(aTwistBounds.x, aTwistBounds.z, uUnfold);
+    float morphRange = max(1e-6, mix(aTwistBounds.y, aTwistBounds.w, uUnfold) - morphMin);
+    float morphAngle = uTwist * uTwistTurns * PI2 * ((transformed.y - morphMin) / morphRange);
+    float morphS = sin(morphAngle);
+    float morphC = cos(morphAngle);
+    transformed.xz = vec2(transformed.x * morphC - transformed.z * morphS, transformed.x * morphS + transformed.z * morphC);
+`;
+
+// Patches a material whose vertex shader uses <begin_vertex> (built-in materials, the glow shader) to morph.
+// Objects drawn this way should not be frustum-culled: their bounding volume comes from the CPU position copy.
+export function useGoreMorph(material: THREE.Material, uniforms: GoreMorphUniforms): void {
+    material.onBeforeCompile = (shader) => {
+        Object.assign(shader.uniforms, uniforms);
+        shader.vertexShader = MORPH_DECLARATIONS + shader.vertexShader.replace(
+            '#include <begin_vertex>',
+            `#include <begin_vertex>\n${MORPH_VERTEX}`
+        );
+    };
+    material.customProgramCacheKey = () => 'gore-morph';
+}
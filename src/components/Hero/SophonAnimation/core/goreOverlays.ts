@@ -0,0 +1,223 @@
+import * as THREE from 'three';
+import { goreBoundaryPairs } from './geometry';
+import { useGoreMorph, type GoreMorphUniforms } from './goreMorph';
+
+// Per-gore decorations (additive outline, lattice wireframe, two-layer glow). They are built once per gore
+// mesh and afterwards only see position copies, material colors/opacities and uniform changes.
+
+// Normalised distance (0..1) of each vertex from the bounding-sphere center; drives the center-out glow reveal
+export function writeDistanceAttribute(geom: THREE.BufferGeometry): void {
+    const pos = geom.getAttribute('position') as THREE.BufferAttribute;
+    if (!pos) return;
+    let dist = geom.getAttribute('aDist') as THREE.BufferAttribute | undefined;
+    if (!dist || dist.count !== pos.count) {
+        dist = new THREE.BufferAttribute(new Float32Array(pos.count), 1);
+        geom.setAttribute('aDist', dist);
+    }
+    geom.computeBoundingSphere();
+    const center = geom.boundingSphere?.center ?? new THREE.Vector3(0, 0, 0);
+    const radius = Math.max(geom.boundingSphere?.radius ?? 1e-6, 1e-6);
+    const arr = pos.array as Float32Array;
+    const out = dist.array as Float32Array;
+    for (let i = 0; i < pos.count; i++) {
+        const x = arr[i * 3] - center.x;
+        const y = arr[i * 3 + 1] - center.y;
+        const z = arr[i * 3 + 2] - center.z;
+        const d = Math.sqrt(x * x + y * y + z * z) / radius;
+        out[i] = Math.max(0, Math.min(1, d));
+    }
+    dist.needsUpdate = true;
+}
+
+export function createGlowMaterial(color: number, baseOpacity: number, reveal: number, pulse: number): THREE.ShaderMaterial {
+    return new THREE.ShaderMaterial({
+        transparent: true,
+        blending: THREE.AdditiveBlending,
+        depthTest: false,
+        depthWrite: false,
+        uniforms: {
+            uColor: { value: new THREE.Color(color) },
+            uOpacity: { value: baseOpacity },
+            uReveal: { value: reveal },
+            uPulse: { value: pulse }
+        },
+        vertexShader: `
+            #include <common>
+            attribute float aDist;
+            varying float vDist;
+            void main() {
+                vDist = aDist;
+                #include <begin_vertex>
+                gl_Position = projectionMatrix * modelViewMatrix * vec4(transformed, 1.0);
+            }
+        `,
+        fragmentShader: `
+            precision highp float;
+            uniform vec3 uColor;
+            uniform float uOpacity;
+            uniform float uReveal;
+            uniform float uPulse;
+            varying float vDist;
+            void main() {
+                float edge = 0.12;
+                // Endpoints are included once reveal reaches 1.0
+                float mask = 1.0 - smoothstep(uReveal, uReveal + edge, vDist);
+                float alpha = uOpacity * (0.5 + 0.5 * uPulse) * mask;
+                if (alpha <= 0.001) discard;
+                gl_FragColor = vec4(uColor, alpha);
+            }
+        `
+    });
+}
+
+export function createGlowLine(geom: THREE.BufferGeometry, color: number, baseOpacity: number, reveal: number, pulse: number): THREE.LineSegments {
+    if (!geom.getAttribute('aDist')) writeDistanceAttribute(geom);
+    const line = new THREE.LineSegments(geom, createGlowMaterial(color, baseOpacity, reveal, pulse));
+    line.renderOrder = 9995;
+    return line;
+}
+
+export type GoreOverlayStyle = {
+    color: number;             // gore palette color (outline and wireframe)
+    edgeOpacity: number;       // additive outline; 0 hides it
+    edgeDrawProgress: number;  // share of the outline drawn, top to bottom
+    wireOpacity: number;       // lattice wireframe; 0 hides it
+    glow: { reveal: number; pulse: number; core: number; outer: number } | null;
+    alpha?: number;            // multiplies every layer (lattice cross-fades); default 1
+};
+
+const GLOW_CORE_OPACITY = 1.0;
+const GLOW_OUTER_OPACITY = 0.35;
+
+export class GoreOverlays {
+    private gore: THREE.Mesh;
+    private source: THREE.BufferGeometry | null = null;
+    private pairs: number[] = [];
+    private edgeGeom = new THREE.BufferGeometry();
+    private glowGeom = new THREE.BufferGeometry();
+    private edges: THREE.LineSegments<THREE.BufferGeometry, THREE.LineBasicMaterial>;
+    private wire: THREE.Mesh<THREE.BufferGeometry, THREE.MeshBasicMaterial>;
+    private glowCore: THREE.LineSegments<THREE.BufferGeometry, THREE.ShaderMaterial>;
+    private glowOuter: THREE.LineSegments<THREE.BufferGeometry, THREE.ShaderMaterial>;
+    // Outline copies are only refreshed for layers that are actually drawn
+    private edgesDirty = true;
+    private glowDirty = true;
+
+    // With `morph`, outlines also copy the morph attributes and every layer unfolds in the vertex shader
+    constructor(gore: THREE.Mesh, morph?: GoreMorphUniforms) {
+        this.gore = gore;
+        this.edges = new THREE.LineSegments(this.edgeGeom, new THREE.LineBasicMaterial({
+            transparent: true,
+            opacity: 1.0,
+            blending: THREE.AdditiveBlending,
+            depthTest: false,
+            depthWrite: false
+        }));
+        this.edges.renderOrder = 9990;
+        // Shares the gore's own geometry, so reshaping the gore reshapes the wireframe for free
+        this.wire = new THREE.Mesh(gore.geometry as THREE.BufferGeometry, new THREE.MeshBasicMaterial({
+            transparent: true,
+            opacity: 0.6,
+            wireframe: true,
+            side: THREE.DoubleSide,
+            // keep colors intact (avoid whitening) but avoid depth-write so overlapping edges don't occlude
+            blending: THREE.NormalBlending,
+            depthWrite: false,
+        }));
+        this.glowCore = new THREE.LineSegments(this.glowGeom, createGlowMaterial(0xffffff, GLOW_CORE_OPACITY, 0, 0));
+        this.glowCore.renderOrder = 9995;
+        this.glowOuter = new THREE.LineSegments(this.glowGeom, createGlowMaterial(0xffffff, GLOW_OUTER_OPACITY, 0, 0));
+        this.glowOuter.renderOrder = 9994;
+        [this.edges, this.wire, this.glowCore, this.glowOuter].forEach(o => {
+            o.visible = false;
+            o.userData.goreOverlay = true;
+            if (morph) {
+                useGoreMorph(o.material, morph);
+                o.frustumCulled = false;
+            }
+            gore.add(o);
+        });
+        this.refresh();
+    }
+
+    // Call after the gore's vertex positions or morph targets changed (or its geometry was replaced for a new lattice)
+    public refresh(): void {
+        const geometry = this.gore.geometry as THREE.BufferGeometry;
+        if (geometry !== this.source) {
+            this.source = geometry;
+            this.pairs = goreBoundaryPairs(geometry);
+            this.wire.geometry = geometry;
+        }
+        this.edgesDirty = true;
+        this.glowDirty = true;
+    }
+
+    public apply(style: GoreOverlayStyle): void {
+        const alpha = style.alpha ?? 1;
+        const vCount = this.pairs.length;
+        const drawCount = Math.max(0, Math.floor((vCount * style.edgeDrawProgress) / 2) * 2);
+        this.edges.visible = style.edgeOpacity * alpha > 0 && drawCount > 0;
+        if (this.edges.visible) {
+            if (this.edgesDirty) { this.copyOutline(this.edgeGeom); this.edgesDirty = false; }
+            this.edgeGeom.setDrawRange(0, drawCount);
+            this.edges.material.color.setHex(style.color);
+            this.edges.material.opacity = style.edgeOpacity * alpha;
+        }
+
+        this.wire.visible = style.wireOpacity * alpha > 0;
+        if (this.wire.visible) {
+            this.wire.material.color.setHex(style.color);
+            this.wire.material.opacity = style.wireOpacity * alpha;
+        }
+
+        const glow = alpha > 0 ? style.glow : null;
+        this.glowCore.visible = this.glowOuter.visible = !!glow;
+        if (glow) {
+            if (this.glowDirty) {
+                this.copyOutline(this.glowGeom);
+                writeDistanceAttribute(this.glowGeom);
+                this.glowDirty = false;
+            }
+            this.setGlowUniforms(this.glowCore.material, glow.core, GLOW_CORE_OPACITY * alpha, glow.reveal, glow.pulse);
+            this.setGlowUniforms(this.glowOuter.material, glow.outer, GLOW_OUTER_OPACITY * alpha, glow.reveal, glow.pulse);
+        }
+    }
+
+    public dispose(): void {
+        [this.edges, this.wire, this.glowCore, this.glowOuter].forEach(o => {
+            this.gore.remove(o);
+            o.material.dispose();
+        });
+        // The wireframe geometry belongs to the gore
+        this.edgeGeom.dispose();
+        this.glowGeom.dispose();
+    }
+
+    private copyOutline(target: THREE.BufferGeometry): void {
+        ['position', 'aSphere', 'aFlat', 'aTwistBounds'].forEach(name => {
+            const from = this.source!.getAttribute(name) as THREE.BufferAttribute | undefined;
+            if (!from) return;
+            const size = from.itemSize;
+            let attr = target.getAttribute(name) as THREE.BufferAttribute | undefined;
+            if (!attr || attr.count !== this.pairs.length || attr.itemSize !== size) {
+                attr = new THREE.BufferAttribute(new Float32Array(this.pairs.length * size), size);
+                target.setAttribute(name, attr);
+            }
+            const src = from.array as Float32Array;
+            const out = attr.array as Float32Array;
+            for (let k = 0; k < this.pairs.length; k++) {
+                const v = this.pairs[k] * size;
+                for (let c = 0; c < size; c++) out[k * size + c] = src[v + c];
+            }
+            attr.needsUpdate = true;
+        });
+        target.boundingSphere = null;
+    }
+
+    private setGlowUniforms(mat: THREE.ShaderMaterial, color: number, opacity: number, reveal: number, pulse: number): void {
+        (mat.uniforms.uColor.value as THREE.Color).setHex(color);
+        mat.uniforms.uOpacity.value = opacity;
+        mat.uniforms.uReveal.value = reveal;
+        mat.uniforms.uPulse.value = pulse;
+    }
+}
@@ -0,0 +1,299 @@
+import * as THREE from 'three';
+import type { GridMode } from './geometry';
+
+// Flat layouts for the unwrapped gores. A projection places lattice point (u, v) of a gore (u across the gore,
+// growing with longitude; v from the north (0) to the south pole (1)) in the gore's local frame: the origin
+// sits on the common bottom line and the sphere is centered at (0, r, 0). Fan layouts turn every gore about that
+// origin by placementAngle; map layouts return 0 there and draw the whole map in one shared frame.
+//
+// Interrupted maps move their cuts to the nearest gore boundary, so a gore is never torn by an interruption.
+
+export type GoreProjectionContext = {
+    goreIndex: number;
+    angleStep: number;     // longitude span of one gore
+    sphereRadius: number;
+    gridMode: GridMode;
+};
+
+export interface GoreProjection {
+    placementAngle(ctx: GoreProjectionContext): number;
+    project(u: number, v: number, ctx: GoreProjectionContext, out: THREE.Vector3): void;
+}
+
+// A projection, or a cross-fade from one to another (t = 0 is `from`)
+export type GoreProjectionMix = { from: string; to: string; t: number };
+
+const fanAngle = (ctx: GoreProjectionContext) => (ctx.goreIndex + 0.5) * ctx.angleStep;
+
+// The original gore flattening: each gore tapers toward the poles with slightly concave sides
+const gores: GoreProjection = {
+    placementAngle: fanAngle,
+    project(u, v, ctx, out) {
+        const r = ctx.sphereRadius;
+        const tapering = Math.cos(Math.abs(v * Math.PI - Math.PI / 2));
+        const edge = 2 * u - 1;
+        const concavity = ctx.gridMode === 'minimal' ? 0.1 : 0.3;
+        const width = ctx.angleStep * r * tapering * (1 - concavity * (1 - edge * edge));
+        const y = Math.PI * r * (1 - v);
+        if (ctx.gridMode === 'radial') {
+            const angle = (u - 0.5) * Math.PI;
+            const ring = (1 - v) * (width / 2) * tapering;
+            out.set(Math.cos(angle) * ring, y, Math.sin(angle) * ring);
+        } else {
+            out.set(edge * width / 2, y, 0);
+        }
+    },
+};
+
+// Azimuthal equidistant about the south pole: the gores become the wedges of one disc
+const polarFan: GoreProjection = {
+    placementAngle: fanAngle,
+    project(u, v, ctx, out) {
+        const rho = Math.PI * ctx.sphereRadius * (1 - v);
+        const a = (u - 0.5) * ctx.angleStep;
+        out.set(rho * Math.sin(a), rho * Math.cos(a), 0);
+    },
+};
+
+const DEG = Math.PI / 180;
+
+function wrapPi(a: number): number {
+    return a - Math.PI * 2 * Math.floor((a + Math.PI) / (Math.PI * 2));
+}
+
+// Map longitude: 0 faces the camera and grows to the right. Unwrapped per gore, with the +-PI seam on the
+// gore boundary nearest the back, so neighbours stay continuous and no gore straddles the seam.
+function mapLongitude(u: number, ctx: GoreProjectionContext): number {
+    const step = ctx.angleStep;
+    const seam = Math.round((1.5 * Math.PI) / step) * step;
+    const center = wrapPi(seam - Math.PI - (ctx.goreIndex + 0.5) * step);
+    return center + (0.5 - u) * step;
+}
+
+// Gore boundaries lie at -PI + m * step in map longitude
+function snapLongitude(l: number, step: number): number {
+    return -Math.PI + Math.round((l + Math.PI) / step) * step;
+}
+
+type Lobe = { from: number; to: number; center: number };
+
+// Lobe holding a gore, from cut longitudes (radians, ascending) and optional central meridians
+function lobeOf(ctx: GoreProjectionContext, cuts: number[], centers?: number[]): Lobe {
+    const lc = mapLongitude(0.5, ctx);
+    const edges = [-Math.PI, ...cuts.map(c => snapLongitude(c, ctx.angleStep)), Math.PI];
+    let k = 0;
+    while (k < edges.length - 2 && lc >= edges[k + 1]) k++;
+    const from = edges[k];
+    const to = edges[k + 1];
+    return { from, to, center: centers ? centers[k] : (from + to) / 2 };
+}
+
+// Goode homolosine: sinusoidal up to 40°44', Mollweide beyond; interrupted into two northern and four southern lobes
+const HOMOLOSINE_LAT = 0.7109889596207567;
+const GOODE_NORTH = { cuts: [-40 * DEG], centers: [-100 * DEG, 30 * DEG] };
+const GOODE_SOUTH = { cuts: [-100 * DEG, -20 * DEG, 80 * DEG], centers: [-160 * DEG, -60 * DEG, 20 * DEG, 140 * DEG] };
+
+const goode: GoreProjection = {
+    placementAngle: () => 0,
+    project(u, v, ctx, out) {
+        const r = ctx.sphereRadius;
+        const l = mapLongitude(u, ctx);
+        const lat = Math.PI / 2 - v * Math.PI;
+        const lobes = lat >= 0 ? GOODE_NORTH : GOODE_SOUTH;
+        const l0 = lobeOf(ctx, lobes.cuts, lobes.centers).center;
+        let x: number;
+        let y: number;
+        if (Math.abs(lat) <= HOMOLOSINE_LAT) {
+            x = l0 + (l - l0) * Math.cos(lat);
+            y = lat;
+        } else {
+            // Mollweide auxiliary angle: 2t + sin 2t = PI sin(lat)
+            let t = lat;
+            const target = Math.PI * Math.sin(lat);
+            for (let i = 0; i < 12; i++) {
+                const f = 2 * t + Math.sin(2 * t) - target;
+                if (Math.abs(f) < 1e-10) break;
+                t -= f / Math.max(1e-9, 2 + 2 * Math.cos(2 * t));
+            }
+            x = l0 + (2 * Math.SQRT2 / Math.PI) * (l - l0) * Math.cos(t);
+            y = Math.SQRT2 * Math.sin(t) - 0.0528035274542 * Math.sign(lat);
+        }
+        out.set(x * r, r + y * r, 0);
+    },
+};
+
+// Cahill-style butterfly: four octant pairs (north and south triangle sharing the equator) radiating from the
+// north pole, mapped linearly in latitude and longitude
+const CAHILL_CUTS = [-90 * DEG, 0, 90 * DEG];
+
+const cahill: GoreProjection = {
+    placementAngle: () => 0,
+    project(u, v, ctx, out) {
+        const r = ctx.sphereRadius;
+        const lobe = lobeOf(ctx, CAHILL_CUTS);
+        const m = lobe.center;
+        const halfSpan = Math.max(1e-9, (lobe.to - lobe.from) / 2);
+        const across = (mapLongitude(u, ctx) - m) / halfSpan;
+        const spread = (v <= 0.5 ? 2 * v : 2 - 2 * v) * halfSpan * r;
+        const along = v * Math.PI * r;
+        // Lobe axis points away from the pole; front-facing lobes hang down
+        const dx = Math.sin(m), dy = -Math.cos(m);
+        out.set(along * dx + across * spread * -dy, along * dy + across * spread * dx, 0);
+    },
+};
+
+// Icosahedral net (dymaxion-style): poles on two vertices, a strip of ten band faces with five caps on each side.
+// Cap cuts are pulled onto gore boundaries by remapping longitude; the band wraps, so it needs no snapping.
+const ICOSA_RING_LAT = Math.atan(0.5);
+const ICOSA_FRONT = 36 * DEG;   // front of the map in the middle of a northern cap
+const NET_H = Math.sqrt(3) / 2;
+
+type IcosaFace = { a: THREE.Vector3; b: THREE.Vector3; c: THREE.Vector3; normal: THREE.Vector3; na: THREE.Vector2; nb: THREE.Vector2; nc: THREE.Vector2 };
+
+function icosaPoint(lon: number, lat: number, out = new THREE.Vector3()): THREE.Vector3 {
+    return out.set(Math.cos(lat) * Math.cos(lon), Math.sin(lat), Math.cos(lat) * Math.sin(lon));
+}
+
+function icosaFace(a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3, na: THREE.Vector2, nb: THREE.Vector2, nc: THREE.Vector2): IcosaFace {
+    return { a, b, c, normal: a.clone().add(b).add(c).normalize(), na, nb, nc };
+}
+
+const ICOSA = (() => {
+    const north = new THREE.Vector3(0, 1, 0);
+    const south = new THREE.Vector3(0, -1, 0);
+    const upper = (k: number) => icosaPoint(k * 72 * DEG, ICOSA_RING_LAT);
+    const lower = (k: number) => icosaPoint((k * 72 + 36) * DEG, -ICOSA_RING_LAT);
+    const caps: { north: IcosaFace[]; south: IcosaFace[] } = { north: [], south: [] };
+    const band: IcosaFace[] = [];
+    for (let k = 0; k < 5; k++) {
+        const u0 = new THREE.Vector2(k, NET_H), u1 = new THREE.Vector2(k + 1, NET_H);
+        const l0 = new THREE.Vector2(k + 0.5, 0), l1 = new THREE.Vector2(k + 1.5, 0);
+        caps.north.push(icosaFace(north, upper(k), upper(k + 1), new THREE.Vector2(k + 0.5, 2 * NET_H), u0, u1));
+        band.push(icosaFace(upper(k), upper(k + 1), lower(k), u0, u1, l0));
+        band.push(icosaFace(lower(k), lower(k + 1), upper(k + 1), l0, l1, u1));
+        caps.south.push(icosaFace(south, lower(k), lower(k + 1), new THREE.Vector2(k + 1, -NET_H), l0, l1));
+    }
+    return { caps, band };
+})();
+
+// Piecewise-linear longitude remap taking the cuts (phase + k * 72°, snapped to gore boundaries) back onto
+// their true longitudes; identity when two cuts snap together (fewer than five gores)
+function remapToCuts(l: number, phase: number, step: number): number {
+    const span = 72 * DEG;
+    const cut = (k: number) => phase + k * span;
+    let k = Math.floor((l - phase) / span);
+    for (let i = 0; i < 3 && l < snapLongitude(cut(k), step); i++) k--;
+    for (let i = 0; i < 3 && l >= snapLongitude(cut(k + 1), step); i++) k++;
+    const from = snapLongitude(cut(k), step);
+    const to = snapLongitude(cut(k + 1), step);
+    if (to - from < 1e-9) return l;
+    return cut(k) + ((l - from) / (to - from)) * span;
+}
+
+const icosaP = new THREE.Vector3();
+const icosaQ = new THREE.Vector3();
+const icosaE0 = new THREE.Vector3();
+const icosaE1 = new THREE.Vector3();
+const icosaE2 = new THREE.Vector3();
+
+const icosahedral: GoreProjection = {
+    placementAngle: () => 0,
+    project(u, v, ctx, out) {
+        const r = ctx.sphereRadius;
+        const step = ctx.angleStep;
+        const lat = Math.PI / 2 - v * Math.PI;
+        // Icosahedron longitude; northern cuts at 72k, southern at 72k + 36
+        const lonNorth = (l: number) => remapToCuts(l, -ICOSA_FRONT, step) + ICOSA_FRONT;
+        const lonSouth = (l: number) => remapToCuts(l, 0, step) + ICOSA_FRONT;
+        const l = mapLongitude(u, ctx);
+        const w = THREE.MathUtils.clamp((lat + ICOSA_RING_LAT) / (2 * ICOSA_RING_LAT), 0, 1);
+        const lon = lonSouth(l) + (lonNorth(l) - lonSouth(l)) * w;
+        const p = icosaPoint(lon, lat, icosaP);
+
+        // Caps are chosen per gore (its column), band faces per point
+        const lc = mapLongitude(0.5, ctx);
+        const northCol = Math.floor(lonNorth(lc) / (72 * DEG));
+        const southCol = Math.floor((lonSouth(lc) - 36 * DEG) / (72 * DEG));
+        const northCap = ICOSA.caps.north[((northCol % 5) + 5) % 5];
+        const southCap = ICOSA.caps.south[((southCol % 5) + 5) % 5];
+        let face: IcosaFace;
+        if (lat >= ICOSA_RING_LAT && icosaE0.crossVectors(northCap.b, northCap.c).dot(p) <= 0) {
+            face = northCap;
+        } else if (lat <= -ICOSA_RING_LAT && icosaE0.crossVectors(southCap.b, southCap.c).dot(p) >= 0) {
+            face = southCap;
+        } else {
+            face = ICOSA.band[0];
+            let best = -Infinity;
+            for (const f of ICOSA.band) {
+                const d = f.normal.dot(p);
+                if (d > best) { best = d; face = f; }
+            }
+        }
+
+        // Gnomonic projection onto the face plane, then the same barycentric point on the net triangle
+        const q = icosaQ.copy(p).multiplyScalar(face.normal.dot(face.a) / Math.max(1e-6, face.normal.dot(p)));
+        icosaE0.subVectors(face.b, face.a);
+        icosaE1.subVectors(face.c, face.a);
+        icosaE2.subVectors(q, face.a);
+        const d00 = icosaE0.dot(icosaE0), d01 = icosaE0.dot(icosaE1), d11 = icosaE1.dot(icosaE1);
+        const d20 = icosaE2.dot(icosaE0), d21 = icosaE2.dot(icosaE1);
+        const denom = d00 * d11 - d01 * d01;
+        const bb = (d11 * d20 - d01 * d21) / denom;
+        const bc = (d00 * d21 - d01 * d20) / denom;
+        const ba = 1 - bb - bc;
+        let netX = ba * face.na.x + bb * face.nb.x + bc * face.nc.x;
+        const netY = ba * face.na.y + bb * face.nb.y + bc * face.nc.y;
+        // The strip repeats every five units; keep the copy that matches the gore's longitude
+        netX += 5 * Math.round((lon / (72 * DEG) - netX) / 5);
+
+        const edge = (Math.PI * 2 * r) / 5;
+        out.set((netX - ICOSA_FRONT / (72 * DEG)) * edge, r + (netY - NET_H / 2) * edge, 0);
+    },
+};
+
+const PROJECTIONS = new Map<string, GoreProjection>([
+    ['gores', gores],
+    ['polarFan', polarFan],
+    ['cahill', cahill],
+    ['goode', goode],
+    ['icosahedral', icosahedral],
+]);
+
+export const DEFAULT_GORE_PROJECTION = 'gores';
+
+// Make a custom projection selectable by id (replaces a built-in of the same id)
+export function registerGoreProjection(id: string, projection: GoreProjection): void {
+    PROJECTIONS.set(id, projection);
+}
+
+export function hasGoreProjection(id: string): boolean {
+    return PROJECTIONS.has(id);
+}
+
+export function goreProjectionIds(): string[] {
+    return Array.from(PROJECTIONS.keys());
+}
+
+function getProjection(id: string): GoreProjection {
+    return PROJECTIONS.get(id) ?? gores;
+}
+
+const mixA = new THREE.Vector3();
+const mixB = new THREE.Vector3();
+
+export function projectGorePoint(mix: GoreProjectionMix, u: number, v: number, ctx: GoreProjectionContext, out: THREE.Vector3): void {
+    if (mix.t >= 1 || mix.from === mix.to) {
+        getProjection(mix.to).project(u, v, ctx, out);
+        return;
+    }
+    getProjection(mix.from).project(u, v, ctx, mixA);
+    getProjection(mix.to).project(u, v, ctx, mixB);
+    out.lerpVectors(mixA, mixB, Math.max(0, mix.t));
+}
+
+export function gorePlacementAngle(mix: GoreProjectionMix, ctx: GoreProjectionContext): number {
+    const to = getProjection(mix.to).placementAngle(ctx);
+    if (mix.t >= 1 || mix.from === mix.to) return to;
+    const from = getProjection(mix.from).placementAngle(ctx);
+    return from + (to - from) * Math.max(0, mix.t);
+}
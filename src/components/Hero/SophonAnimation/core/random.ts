@@ -0,0 +1,20 @@
+// Small seeded PRNG so ball motion can be replayed exactly from a seed
+
+export type Random = () => number;
+
+// mulberry32: fast 32-bit generator, uniform in [0, 1)
+export function createRandom(seed: number): Random {
+    let a = seed >>> 0;
+    return () => {
+        a = (a + 0x6d2b79f5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// Fresh 32-bit seed for sessions that did not ask for one
+export function randomSeed(): number {
+    return Math.floor(Math.random() * 4294967296) >>> 0;
+}
@@ -0,0 +1,39 @@
+// Tracks how far the page has scrolled through a "scroll track" element (0 when its top reaches the
+// viewport top, 1 when its bottom reaches the viewport bottom). Listens passively and throttles to rAF,
+// so it can sit alongside other scroll listeners (e.g. MissionStatement effects).
+export class ScrollProgress {
+    private track: HTMLElement;
+    private value = 0;
+    private onScrollBound: () => void;
+    private rafScheduled = false;
+
+    constructor(track: HTMLElement) {
+        this.track = track;
+        this.onScrollBound = () => {
+            if (this.rafScheduled) return;
+            this.rafScheduled = true;
+            requestAnimationFrame(() => {
+                this.rafScheduled = false;
+                this.measure();
+            });
+        };
+        window.addEventListener('scroll', this.onScrollBound, { passive: true });
+        window.addEventListener('resize', this.onScrollBound, { passive: true });
+        this.measure();
+    }
+
+    public get progress(): number {
+        return this.value;
+    }
+
+    public destroy(): void {
+        window.removeEventListener('scroll', this.onScrollBound);
+        window.removeEventListener('resize', this.onScrollBound);
+    }
+
+    private measure(): void {
+        const rect = this.track.getBoundingClientRect();
+        const range = Math.max(1, rect.height - window.innerHeight);
+        this.value = Math.max(0, Math.min(1, -rect.top / range));
+    }
+}
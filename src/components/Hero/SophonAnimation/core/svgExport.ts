@@ -0,0 +1,75 @@
+import * as THREE from 'three';
+
+// Vector export of the hero: world-space polylines are projected through the camera (so the SVG
+// matches the on-screen framing) and fitted into a padded viewBox.
+
+export type SvgPolyline = {
+    points: THREE.Vector3[];   // world space
+    closed: boolean;
+    stroke: number;
+    strokeWidth: number;
+    opacity?: number;
+};
+
+export type SvgLayer = { id: string; lines: SvgPolyline[] };
+
+export type SvgExportOptions = {
+    size?: number;        // longest viewBox side in user units
+    padding?: number;     // fraction of the size kept free around the drawing
+    background?: number;  // omit for a transparent background
+};
+
+const hex = (c: number) => `#${c.toString(16).padStart(6, '0')}`;
+const num = (v: number) => (Math.round(v * 100) / 100).toString();
+
+export function buildSvg(layers: SvgLayer[], camera: THREE.Camera, options: SvgExportOptions = {}): string {
+    const size = options.size ?? 1024;
+    const padding = options.padding ?? 0.05;
+    camera.updateMatrixWorld();
+    const view = camera.matrixWorldInverse;
+
+    // Perspective divide without the viewport aspect, y pointing down
+    const project = (v: THREE.Vector3) => {
+        const p = v.clone().applyMatrix4(view);
+        const d = Math.max(1e-6, -p.z);
+        return { x: p.x / d, y: -p.y / d };
+    };
+    const projected = layers.map(layer => layer.lines.map(line => line.points.map(project)));
+
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    projected.forEach(lines => lines.forEach(points => points.forEach(p => {
+        minX = Math.min(minX, p.x); maxX = Math.max(maxX, p.x);
+        minY = Math.min(minY, p.y); maxY = Math.max(maxY, p.y);
+    })));
+    if (!isFinite(minX)) { minX = minY = -1; maxX = maxY = 1; }
+
+    const spanX = Math.max(1e-6, maxX - minX);
+    const spanY = Math.max(1e-6, maxY - minY);
+    const scale = (size * (1 - 2 * padding)) / Math.max(spanX, spanY);
+    const width = spanX * scale + size * 2 * padding;
+    const height = spanY * scale + size * 2 * padding;
+    const tx = (x: number) => num((x - minX) * scale + size * padding);
+    const ty = (y: number) => num((y - minY) * scale + size * padding);
+
+    const out: string[] = [];
+    out.push(`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${num(width)} ${num(height)}" width="${num(width)}" height="${num(height)}">`);
+    if (options.background !== undefined) {
+        out.push(`  <rect width="100%" height="100%" fill="${hex(options.background)}"/>`);
+    }
+    layers.forEach((layer, li) => {
+        if (layer.lines.length === 0) return;
+        out.push(`  <g id="${layer.id}" fill="none" stroke-linecap="round" stroke-linejoin="round">`);
+        layer.lines.forEach((line, i) => {
+            const pts = projected[li][i];
+            if (pts.length < 2) return;
+            // Gores taper to a point at the poles; drop the repeated vertices there
+            const coords = pts.map(p => `${tx(p.x)} ${ty(p.y)}`).filter((c, k, all) => k === 0 || c !== all[k - 1]);
+            const d = coords.map((c, k) => `${k === 0 ? 'M' : 'L'}${c}`).join(' ') + (line.closed ? ' Z' : '');
+            const opacity = line.opacity !== undefined && line.opacity < 1 ? ` stroke-opacity="${num(line.opacity)}"` : '';
+            out.push(`    <path d="${d}" stroke="${hex(line.stroke)}" stroke-width="${num(line.strokeWidth)}"${opacity}/>`);
+        });
+        out.push('  </g>');
+    });
+    out.push('</svg>');
+    return out.join('\n');
+}
@@ -0,0 +1,242 @@
+export type Easing = (t: number) => number;
+
+export const linear: Easing = (t) => t;
+
+// A word typed, held and backspaced in the stage text overlay, timed relative to its segment start (seconds)
+export type StageWordCue = {
+    text: string;
+    start?: number;
+    typeSec: number;
+    holdSec: number;
+    backSec: number;
+};
+
+export type StageWordSample =
+    | { phase: 'typing'; t: number }
+    | { phase: 'holding' }
+    | { phase: 'backspacing'; t: number }
+    | { phase: 'cleared' };
+
+// Per-frame info passed to segment hooks
+export type SegmentFrame = {
+    elapsed: number;    // seconds since the segment was entered
+    progress: number;   // elapsed / duration, clamped to 0..1 (0 for open-ended segments)
+    eased: number;      // progress through the segment easing
+    dt: number;
+};
+
+export interface TimelineSegment<Id extends string = string> {
+    id: Id;
+    // Seconds; Infinity marks an idle hold that only ends through goto()
+    duration: number;
+    easing?: Easing;
+    // Segment entered when this one completes; defaults to the next declared segment
+    next?: Id;
+    stageWords?: StageWordCue[];
+    onEnter?: () => void;
+    onUpdate?: (frame: SegmentFrame) => void;
+    onExit?: () => void;
+}
+
+export type TimelineHooks<Id extends string> = {
+    onStageWord?: (text: string, sample: StageWordSample) => void;
+    onSegmentChange?: (id: Id) => void;
+};
+
+export function sampleStageWord(cue: StageWordCue, elapsed: number): StageWordSample {
+    const clamp01 = (x: number) => Math.max(0, Math.min(1, x));
+    const local = elapsed - (cue.start ?? 0);
+    if (local < 0) return { phase: 'cleared' };
+    if (local < cue.typeSec) return { phase: 'typing', t: clamp01(local / Math.max(0.001, cue.typeSec)) };
+    if (local < cue.typeSec + cue.holdSec) return { phase: 'holding' };
+    if (local < cue.typeSec + cue.holdSec + cue.backSec) {
+        return { phase: 'backspacing', t: clamp01((local - cue.typeSec - cue.holdSec) / Math.max(0.001, cue.backSec)) };
+    }
+    return { phase: 'cleared' };
+}
+
+// The cue on screen at `elapsed`: the latest one that has started, so a later cue cuts an earlier one short.
+// Before the first cue starts, the first cue is reported as cleared.
+export function activeStageWord(cues: StageWordCue[], elapsed: number): { cue: StageWordCue; sample: StageWordSample } | null {
+    let active: StageWordCue | null = null;
+    for (const cue of cues) {
+        const start = cue.start ?? 0;
+        if (start <= elapsed && (!active || start >= (active.start ?? 0))) active = cue;
+    }
+    if (active) return { cue: active, sample: sampleStageWord(active, elapsed) };
+    return cues.length > 0 ? { cue: cues[0], sample: { phase: 'cleared' } } : null;
+}
+
+// Ordered list of declared segments driven by a forward-only clock.
+// Segments are plain data + hooks so phases can be reordered, inserted or retimed without touching the driver.
+export class Timeline<Id extends string = string> {
+    private segments: TimelineSegment<Id>[];
+    private hooks: TimelineHooks<Id>;
+    private index = 0;
+    private elapsed = 0;
+
+    constructor(segments: TimelineSegment<Id>[], hooks: TimelineHooks<Id> = {}) {
+        if (segments.length === 0) throw new Error('Timeline needs at least one segment');
+        this.segments = segments;
+        this.hooks = hooks;
+    }
+
+    public get currentId(): Id {
+        return this.segments[this.index].id;
+    }
+
+    public get segmentElapsed(): number {
+        return this.elapsed;
+    }
+
+    public getSegment(id: Id): TimelineSegment<Id> | undefined {
+        return this.segments.find(s => s.id === id);
+    }
+
+    public getSegments(): readonly TimelineSegment<Id>[] {
+        return this.segments;
+    }
+
+    public retime(id: Id, duration: number): void {
+        const seg = this.getSegment(id);
+        if (seg) seg.duration = Math.max(0, duration);
+    }
+
+    public insertBefore(id: Id, segment: TimelineSegment<Id>): void {
+        const i = this.segments.findIndex(s => s.id === id);
+        if (i < 0) throw new Error(`Unknown timeline segment: ${id}`);
+        this.segments.splice(i, 0, segment);
+        if (i <= this.index) this.index++;
+    }
+
+    // Enter a segment by id (runs the current segment's onExit first unless `silent`)
+    public goto(id: Id, silent = false): void {
+        const i = this.segments.findIndex(s => s.id === id);
+        if (i < 0) throw new Error(`Unknown timeline segment: ${id}`);
+        if (!silent) this.segments[this.index].onExit?.();
+        this.enter(i);
+    }
+
+    // Enter the first declared segment without running any exit hook
+    public start(): void {
+        this.enter(0);
+    }
+
+    // Length of the scrubbable sequence; idle holds (infinite segments) count as zero-length
+    public getDuration(): number {
+        return this.segments.reduce((sum, s) => sum + (isFinite(s.duration) ? s.duration : 0), 0);
+    }
+
+    // Absolute time at which a segment starts within getDuration()
+    public getSegmentStart(id: Id): number {
+        let offset = 0;
+        for (const seg of this.segments) {
+            if (seg.id === id) return offset;
+            if (isFinite(seg.duration)) offset += seg.duration;
+        }
+        throw new Error(`Unknown timeline segment: ${id}`);
+    }
+
+    // Segment and local time at an absolute position within getDuration(); null past the end
+    public locate(seconds: number): { id: Id; elapsed: number } | null {
+        let offset = 0;
+        for (const seg of this.segments) {
+            if (!isFinite(seg.duration)) continue;
+            if (seconds >= offset && seconds < offset + seg.duration) return { id: seg.id, elapsed: Math.max(0, seconds - offset) };
+            offset += seg.duration;
+        }
+        return null;
+    }
+
+    // Absolute position within getDuration()
+    public getTime(): number {
+        let offset = 0;
+        for (let i = 0; i < this.index; i++) {
+            const d = this.segments[i].duration;
+            if (isFinite(d)) offset += d;
+        }
+        const d = this.segments[this.index].duration;
+        return offset + (isFinite(d) ? Math.min(this.elapsed, d) : 0);
+    }
+
+    // Jump to an absolute time by replaying every earlier segment to completion (enter -> final update -> exit).
+    // State the segments write is then the same whatever played before; state they do not own (and side effects
+    // of the replayed hooks) is the caller's to reset or suppress.
+    public seek(seconds: number): void {
+        const target = Math.max(0, Math.min(this.getDuration(), seconds));
+        let acc = 0;
+        let landing = this.segments.length - 1;
+        let local = 0;
+        for (let i = 0; i < this.segments.length; i++) {
+            const d = this.segments[i].duration;
+            if (!isFinite(d)) {
+                // Boundary exactly at an idle hold lands on the hold
+                if (target <= acc) { landing = i; local = 0; break; }
+                continue;
+            }
+            if (target < acc + d) { landing = i; local = target - acc; break; }
+            acc += d;
+        }
+
+        this.enter(0);
+        for (let i = 0; i < landing; i++) {
+            const seg = this.segments[i];
+            this.elapsed = isFinite(seg.duration) ? seg.duration : 0;
+            this.update(seg, 0);
+            seg.onExit?.();
+            this.enter(i + 1);
+        }
+        this.elapsed = local;
+        this.update(this.segments[landing], 0);
+    }
+
+    public advance(dt: number): void {
+        const seg = this.segments[this.index];
+        this.elapsed += dt;
+        this.update(seg, dt);
+        if (this.elapsed >= seg.duration) {
+            seg.onExit?.();
+            this.enter(this.resolveNext(this.index));
+        }
+    }
+
+    // Move the current segment's clock to `elapsed` in either direction; completes the segment at its end
+    public scrub(elapsed: number): void {
+        const seg = this.segments[this.index];
+        const next = Math.max(0, elapsed);
+        const dt = next - this.elapsed;
+        this.elapsed = next;
+        this.update(seg, dt);
+        if (this.elapsed >= seg.duration) {
+            seg.onExit?.();
+            this.enter(this.resolveNext(this.index));
+        }
+    }
+
+    private update(seg: TimelineSegment<Id>, dt: number): void {
+        const open = !isFinite(seg.duration);
+        const progress = open ? 0 : (seg.duration > 0 ? Math.min(1, this.elapsed / seg.duration) : 1);
+        const eased = (seg.easing ?? linear)(progress);
+        seg.onUpdate?.({ elapsed: this.elapsed, progress, eased, dt });
+        if (seg.stageWords && this.hooks.onStageWord) {
+            const word = activeStageWord(seg.stageWords, this.elapsed);
+            if (word) this.hooks.onStageWord(word.cue.text, word.sample);
+        }
+    }
+
+    private resolveNext(i: number): number {
+        const nextId = this.segments[i].next;
+        if (nextId !== undefined) {
+            const j = this.segments.findIndex(s => s.id === nextId);
+            if (j >= 0) return j;
+        }
+        return (i + 1) % this.segments.length;
+    }
+
+    private enter(i: number): void {
+        this.index = i;
+        this.elapsed = 0;
+        this.segments[i].onEnter?.();
+        this.hooks.onSegmentChange?.(this.segments[i].id);
+    }
+}
@@ -5,13 +5,13 @@ export type AnimationStep =
     | 'INITIAL_CIRCLES_MOVE'
     | 'FORMING_GORES'
     | 'UNWRAPPING'
-    | 'HOLD_UNWRAPPED'
-    | 'PAUSE_UNWRAPPED'
+    | 'UNWRAPPED_IDLE'
     | 'WRAPPING'
     | 'DEFORMING_GORES'
-    | 'SHOW_COMPANY_NAME';
+    | 'EYE_IDLE';
 
-export type SphereConfig = { radius: number; colors: number[] };
+// `projection` picks the flat layout of this sphere's gores (see core/projections)
+export type SphereConfig = { radius: number; colors: number[]; projection?: string };
 
 export interface SceneRefs {
     scene: THREE.Scene;
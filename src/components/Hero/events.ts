@@ -0,0 +1,72 @@
+import type { ThemeTransition } from './theme';
+
+// Typed, instance-scoped event bus shared by the hero components (one bus per hero, so several heroes
+// on a page never cross-talk). Payload shapes are declared once in HeroEventMap.
+
+export type FontSizeDetail = { fontSize: number; letterSpacingRatio: number };
+export type GoreRef = { sphereIndex: number; goreIndex: number };
+
+export type HeroEventMap = {
+    companyNameTypingStart: void;
+    companyNameTypingProgress: { progress: number };
+    companyNameTypingFinished: void;
+    companyNameTypingEnd: void;
+    companyNameGlow: { intensity: number };
+    companyNameHidden: void;
+    stageTextType: { text: string };
+    stageTextBackspace: void;
+    stageTextCreated: void;
+    stageTextUpdated: { text: string };
+    stageWordsChanged: { words: string[] };
+    mobileCompanyFontSize: FontSizeDetail;
+    mobileTitleFontSize: FontSizeDetail;
+    themeChange: ThemeTransition;
+    // Background.seek() landed; `unwrapped` once the unwrap has completed at that point (the name is shown)
+    heroSeek: { unwrapped: boolean };
+    // Unwrapped-logo picking (sphere 0 is the outermost)
+    goreHover: GoreRef | null;
+    goreClick: GoreRef;
+};
+
+type Listener<P> = (payload: P) => void;
+type EmitArgs<P> = [P] extends [void] ? [] : [payload: P];
+
+export class EventBus<M extends Record<string, unknown>> {
+    // Listener<never> accepts a listener of any payload; emit narrows it back to the event's own type
+    private listeners = new Map<keyof M, Set<Listener<never>>>();
+
+    // Subscribe; returns the matching unsubscribe function
+    public on<K extends keyof M>(type: K, listener: Listener<M[K]>): () => void {
+        let set = this.listeners.get(type);
+        if (!set) { set = new Set(); this.listeners.set(type, set); }
+        set.add(listener);
+        return () => this.off(type, listener);
+    }
+
+    public once<K extends keyof M>(type: K, listener: Listener<M[K]>): () => void {
+        const off = this.on(type, (payload) => {
+            off();
+            listener(payload);
+        });
+        return off;
+    }
+
+    public off<K extends keyof M>(type: K, listener: Listener<M[K]>): void {
+        this.listeners.get(type)?.delete(listener);
+    }
+
+    public emit<K extends keyof M>(type: K, ...args: EmitArgs<M[K]>): void {
+        const set = this.listeners.get(type);
+        if (!set) return;
+        // Copy so listeners may unsubscribe while being notified
+        [...set].forEach(listener => {
+            try { (listener as Listener<M[K]>)(args[0] as M[K]); } catch (e) { console.error(`Hero event "${String(type)}" listener failed`, e); }
+        });
+    }
+
+    public clear(): void {
+        this.listeners.clear();
+    }
+}
+
+export class HeroEventBus extends EventBus<HeroEventMap> { }
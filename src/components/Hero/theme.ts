@@ -0,0 +1,165 @@
+import type { HeroEventBus } from './events';
+
+// Colors shared by the canvas (circle outlines, glow lines, gores), the stage text and the company name
+export type HeroTheme = {
+    name: string;
+    core: number;        // text and outline core
+    glowInner: number;
+    glowOuter: number;
+    haloUltra: number;   // outer circle halo
+    haloSuper: number;   // deepest circle halo
+    background: number;  // page background
+    // Optional per-sphere gore palettes; spheres without one keep the Background's configured colors
+    goreColors?: number[][];
+};
+
+export type HeroThemeName = 'dark' | 'light' | 'brand';
+
+export const HERO_THEMES: Record<HeroThemeName, HeroTheme> = {
+    dark: {
+        name: 'dark',
+        core: 0xffffff,
+        glowInner: 0xe6f6ff,
+        glowOuter: 0x9edfff,
+        haloUltra: 0x4d94ff,
+        haloSuper: 0x1a4d7a,
+        background: 0x000000,
+    },
+    light: {
+        name: 'light',
+        core: 0x0b1a2e,
+        glowInner: 0x1f4e8c,
+        glowOuter: 0x3d7cc9,
+        haloUltra: 0x7aa7e0,
+        haloSuper: 0xb9d0ee,
+        background: 0xf4f6fa,
+        goreColors: [
+            [0xc0392b, 0xc0392b, 0xc0392b, 0x1e8449, 0x1e8449, 0x1e8449, 0x1f4e8c, 0x1f4e8c, 0x1f4e8c],
+            [0xd9695c, 0xd9695c, 0xd9695c, 0x4aa36e, 0x4aa36e, 0x4aa36e, 0x4d79b8, 0x4d79b8, 0x4d79b8],
+            [0xe8a199, 0xe8a199, 0xe8a199, 0x86c49e, 0x86c49e, 0x86c49e, 0x8aa8d6, 0x8aa8d6, 0x8aa8d6],
+        ],
+    },
+    brand: {
+        name: 'brand',
+        core: 0xffffff,
+        glowInner: 0xf3e6ff,
+        glowOuter: 0xc59eff,
+        haloUltra: 0x8a4dff,
+        haloSuper: 0x3d1a7a,
+        background: 0x05010f,
+        goreColors: [
+            [0x8a4dff, 0x8a4dff, 0x8a4dff, 0x33d1c4, 0x33d1c4, 0x33d1c4, 0xffb347, 0xffb347, 0xffb347],
+            [0xa97dff, 0xa97dff, 0xa97dff, 0x6fe0d6, 0x6fe0d6, 0x6fe0d6, 0xffc97a, 0xffc97a, 0xffc97a],
+            [0xcfb5ff, 0xcfb5ff, 0xcfb5ff, 0xa9ede7, 0xa9ede7, 0xa9ede7, 0xffe0ad, 0xffe0ad, 0xffe0ad],
+        ],
+    },
+};
+
+// Payload of the `themeChange` event: `theme` holds the blended scalar colors; gore palettes are mixed by
+// consumers from `from`/`to` at `t` since they fall back to component-specific colors
+export type ThemeTransition = { theme: HeroTheme; from: HeroTheme; to: HeroTheme; t: number };
+
+export function mixColor(a: number, b: number, t: number): number {
+    const k = Math.max(0, Math.min(1, t));
+    const ch = (c: number, shift: number) => (c >> shift) & 0xff;
+    const mix = (shift: number) => Math.round(ch(a, shift) + (ch(b, shift) - ch(a, shift)) * k);
+    return (mix(16) << 16) | (mix(8) << 8) | mix(0);
+}
+
+export function cssColor(color: number, alpha?: number): string {
+    if (alpha === undefined) return `#${color.toString(16).padStart(6, '0')}`;
+    return `rgba(${(color >> 16) & 0xff}, ${(color >> 8) & 0xff}, ${color & 0xff}, ${alpha})`;
+}
+
+// Theme gore color for (sphere, gore), falling back to `fallback` when the theme has no palette for that sphere
+export function themeGoreColor(theme: HeroTheme, sphereIndex: number, goreIndex: number, fallback: number): number {
+    const palette = theme.goreColors?.[sphereIndex];
+    if (!palette || palette.length === 0) return fallback;
+    return palette[goreIndex % palette.length];
+}
+
+export function mixThemes(from: HeroTheme, to: HeroTheme, t: number): HeroTheme {
+    return {
+        name: t >= 1 ? to.name : from.name,
+        core: mixColor(from.core, to.core, t),
+        glowInner: mixColor(from.glowInner, to.glowInner, t),
+        glowOuter: mixColor(from.glowOuter, to.glowOuter, t),
+        haloUltra: mixColor(from.haloUltra, to.haloUltra, t),
+        haloSuper: mixColor(from.haloSuper, to.haloSuper, t),
+        background: mixColor(from.background, to.background, t),
+    };
+}
+
+// Owns the active hero theme, cross-fades between themes and broadcasts every step on the hero bus.
+// Page-level colors are exposed as CSS custom properties on `root`.
+export class ThemeController {
+    private events: HeroEventBus;
+    private root: HTMLElement;
+    private from: HeroTheme = HERO_THEMES.dark;
+    private to: HeroTheme = HERO_THEMES.dark;
+    private t = 1;
+    private fadeId: number | null = null;
+    private schemeQuery: MediaQueryList | null = null;
+    private onSchemeChange?: (e: MediaQueryListEvent) => void;
+
+    constructor(events: HeroEventBus, root: HTMLElement = document.documentElement) {
+        this.events = events;
+        this.root = root;
+    }
+
+    public getTheme(): HeroTheme {
+        return this.to;
+    }
+
+    // Broadcast the current state (call once all components are subscribed)
+    public apply(): void {
+        const theme = mixThemes(this.from, this.to, this.t);
+        this.root.style.setProperty('--hero-background', cssColor(theme.background));
+        this.root.style.setProperty('--hero-text-color', cssColor(theme.core));
+        this.events.emit('themeChange', { theme, from: this.from, to: this.to, t: this.t });
+    }
+
+    public setTheme(theme: HeroTheme | HeroThemeName, durationMs = 800): void {
+        const next = typeof theme === 'string' ? HERO_THEMES[theme] : theme;
+        // Start the fade from whatever is on screen right now
+        this.from = this.t >= 1 ? this.to : { ...mixThemes(this.from, this.to, this.t), goreColors: this.t < 0.5 ? this.from.goreColors : this.to.goreColors };
+        this.to = next;
+        if (this.fadeId) { cancelAnimationFrame(this.fadeId); this.fadeId = null; }
+
+        if (durationMs <= 0) {
+            this.t = 1;
+            this.apply();
+            return;
+        }
+
+        this.t = 0;
+        const start = performance.now();
+        const step = (now: number) => {
+            const x = Math.min(1, (now - start) / durationMs);
+            this.t = x * x * (3 - 2 * x); // smoothstep
+            this.apply();
+            this.fadeId = x < 1 ? requestAnimationFrame(step) : null;
+        };
+        this.fadeId = requestAnimationFrame(step);
+    }
+
+    // Track prefers-color-scheme (dark <-> light) live; disabling leaves the current theme in place
+    public followSystemScheme(enabled: boolean): void {
+        if (this.schemeQuery && this.onSchemeChange) {
+            this.schemeQuery.removeEventListener('change', this.onSchemeChange);
+        }
+        this.schemeQuery = null;
+        this.onSchemeChange = undefined;
+        if (!enabled || typeof window.matchMedia !== 'function') return;
+
+        this.schemeQuery = window.matchMedia('(prefers-color-scheme: light)');
+        this.onSchemeChange = (e) => this.setTheme(e.matches ? 'light' : 'dark');
+        this.schemeQuery.addEventListener('change', this.onSchemeChange);
+        this.setTheme(this.schemeQuery.matches ? 'light' : 'dark', 0);
+    }
+
+    public destroy(): void {
+        this.followSystemScheme(false);
+        if (this.fadeId) { cancelAnimationFrame(this.fadeId); this.fadeId = null; }
+    }
+}
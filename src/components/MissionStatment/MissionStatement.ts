@@ -1,3 +1,6 @@
+import { onReducedMotionChange, prefersReducedMotion } from '../reducedMotion';
+import { LOCALES, type HeroLocale } from '../i18n';
+
 export class MissionStatement {
     protected container: HTMLElement;
     protected root: HTMLDivElement | null = null;
@@ -5,13 +8,22 @@ export class MissionStatement {
     protected visible = false;
     protected asHeroSection = false;
     protected textEl: HTMLParagraphElement | null = null;
+    protected locale: HeroLocale;
     private onScrollBound?: () => void;
     private rafScheduled = false;
+    // Reduced motion: no scroll-linked motion and no slide-in
+    private reducedMotion = prefersReducedMotion();
+    private offReducedMotion?: () => void;
 
-    constructor(container: HTMLElement, asHeroSection = false) {
+    constructor(container: HTMLElement, asHeroSection = false, locale: HeroLocale = LOCALES.en) {
         this.container = container;
         this.asHeroSection = asHeroSection;
+        this.locale = locale;
         this.create();
+        this.offReducedMotion = onReducedMotionChange(reduced => {
+            this.reducedMotion = reduced;
+            this.applyScrollEffects();
+        });
     }
 
     protected create() {
@@ -32,8 +44,8 @@ export class MissionStatement {
         this.root.setAttribute('aria-hidden', 'true');
         this.root.style.cssText = `
             opacity: 0;
-            transform: translateY(24px);
-            transition: opacity 800ms ease, transform 800ms ease;
+            transform: translateY(${this.reducedMotion ? 0 : 24}px);
+            transition: opacity 800ms ease${this.reducedMotion ? '' : ', transform 800ms ease'};
         `;
 
         const inner = document.createElement('div');
@@ -41,7 +53,9 @@ export class MissionStatement {
 
         const p = document.createElement('p');
         p.className = 'mission-text';
-        p.innerHTML = `Our systems deliver <span class="highlight">intelligence</span> that drives fast and impactful decisions across industries, from campaign strategy to creative greenlighting.`;
+        p.lang = this.locale.code;
+        p.dir = this.locale.dir;
+        p.innerHTML = this.locale.strings.missionHtml;
         this.textEl = p;
 
         inner.appendChild(p);
@@ -84,6 +98,7 @@ export class MissionStatement {
             this.spacer = null;
         }
         this.detachScrollEffects();
+        if (this.offReducedMotion) { this.offReducedMotion(); this.offReducedMotion = undefined; }
     }
 
     // Attach scroll listener to create subtle motion/opacity/line-height effects
@@ -111,6 +126,13 @@ export class MissionStatement {
 
     private applyScrollEffects() {
         if (!this.root || !this.textEl) return;
+        if (this.reducedMotion) {
+            // Hold the neutral pose (CSS baseline)
+            this.textEl.style.transform = 'none';
+            this.textEl.style.opacity = '1';
+            this.textEl.style.lineHeight = '';
+            return;
+        }
         const rect = this.root.getBoundingClientRect();
         const vh = Math.max(1, window.innerHeight);
         // Distance of section center to viewport center (normalized ~[-1,1])
@@ -0,0 +1,200 @@
+// Locale layer shared by the hero and mission components: every user-facing string plus the
+// text direction, and grapheme-aware helpers so typewriter effects never split a character
+// (emoji, combining marks, CJK).
+
+import type { AnimationStep } from './Hero/SophonAnimation/core/types';
+
+export type HeroStrings = {
+    companyLine1: string;
+    companyLine2: string;
+    // Typed over the hero, one per phase (observe, discover, transform)
+    stageWords: string[];
+    // Trusted markup; may wrap the key word in <span class="highlight">
+    missionHtml: string;
+    // Accessible name and role description of the hero canvas
+    logoLabel: string;
+    logoRoleDescription: string;
+    // Spoken for screen readers when a phase starts
+    phaseLabels: Record<AnimationStep, string>;
+    paused: string;
+    playing: string;
+    // Shortcut overlay: title, then [keys, action] rows
+    keyboardHelpTitle: string;
+    keyboardHelp: Array<[string, string]>;
+};
+
+export type HeroLocale = {
+    code: string;            // BCP 47 tag, e.g. 'en', 'ar'
+    dir: 'ltr' | 'rtl';
+    strings: HeroStrings;
+};
+
+const en: HeroLocale = {
+    code: 'en',
+    dir: 'ltr',
+    strings: {
+        companyLine1: 'SOPHON',
+        companyLine2: 'SYSTEMS',
+        stageWords: ['OBSERVE', 'DISCOVER', 'TRANSFORM'],
+        missionHtml: 'Our systems deliver <span class="highlight">intelligence</span> that drives fast and impactful decisions across industries, from campaign strategy to creative greenlighting.',
+        logoLabel: 'Sophon logo animation',
+        logoRoleDescription: '3D logo',
+        phaseLabels: {
+            INITIAL_CIRCLES_MOVE: 'The eye opens into circles',
+            FORMING_GORES: 'Gores are drawn on the spheres',
+            UNWRAPPING: 'The spheres unwrap',
+            UNWRAPPED_IDLE: 'The logo is unwrapped',
+            WRAPPING: 'The logo wraps back into spheres',
+            DEFORMING_GORES: 'The gores fold back into circles',
+            EYE_IDLE: 'The eye is at rest',
+        },
+        paused: 'Paused',
+        playing: 'Playing',
+        keyboardHelpTitle: 'Keyboard shortcuts',
+        keyboardHelp: [
+            ['Arrow keys', 'Rotate'],
+            ['+ / -', 'Zoom in / out'],
+            ['Space', 'Pause / resume'],
+            ['Home', 'Reset view'],
+            ['W / U', 'Wrap / unwrap the logo'],
+            ['S', 'Save as SVG (Shift+S: final logo)'],
+            ['?', 'Show / hide this help'],
+        ],
+    },
+};
+
+export const LOCALES: Record<string, HeroLocale> = {
+    en,
+    de: {
+        code: 'de',
+        dir: 'ltr',
+        strings: {
+            ...en.strings,
+            stageWords: ['BEOBACHTEN', 'ENTDECKEN', 'VERWANDELN'],
+            missionHtml: 'Unsere Systeme liefern <span class="highlight">Intelligenz</span>, die schnelle und wirkungsvolle Entscheidungen in allen Branchen ermöglicht – von der Kampagnenstrategie bis zur kreativen Freigabe.',
+            logoLabel: 'Sophon-Logo-Animation',
+            logoRoleDescription: '3D-Logo',
+            phaseLabels: {
+                INITIAL_CIRCLES_MOVE: 'Das Auge öffnet sich zu Kreisen',
+                FORMING_GORES: 'Auf den Kugeln werden Segmente gezeichnet',
+                UNWRAPPING: 'Die Kugeln entfalten sich',
+                UNWRAPPED_IDLE: 'Das Logo ist entfaltet',
+                WRAPPING: 'Das Logo faltet sich zurück zu Kugeln',
+                DEFORMING_GORES: 'Die Segmente falten sich zurück zu Kreisen',
+                EYE_IDLE: 'Das Auge ruht',
+            },
+            paused: 'Pausiert',
+            playing: 'Wird abgespielt',
+            keyboardHelpTitle: 'Tastenkürzel',
+            keyboardHelp: [
+                ['Pfeiltasten', 'Drehen'],
+                ['+ / -', 'Vergrößern / verkleinern'],
+                ['Leertaste', 'Pause / fortsetzen'],
+                ['Pos1', 'Ansicht zurücksetzen'],
+                ['W / U', 'Logo falten / entfalten'],
+                ['S', 'Als SVG speichern (Umschalt+S: fertiges Logo)'],
+                ['?', 'Diese Hilfe ein- / ausblenden'],
+            ],
+        },
+    },
+    ar: {
+        code: 'ar',
+        dir: 'rtl',
+        strings: {
+            ...en.strings,
+            stageWords: ['راقِب', 'اكتشِف', 'حوِّل'],
+            missionHtml: 'تقدّم أنظمتنا <span class="highlight">ذكاءً</span> يقود قرارات سريعة ومؤثرة في مختلف القطاعات، من استراتيجية الحملات إلى اعتماد الأعمال الإبداعية.',
+            logoLabel: 'رسوم متحركة لشعار سوفون',
+            logoRoleDescription: 'شعار ثلاثي الأبعاد',
+            phaseLabels: {
+                INITIAL_CIRCLES_MOVE: 'تنفتح العين إلى دوائر',
+                FORMING_GORES: 'تُرسم الشرائح على الكرات',
+                UNWRAPPING: 'تنبسط الكرات',
+                UNWRAPPED_IDLE: 'الشعار منبسط',
+                WRAPPING: 'ينطوي الشعار عائدًا إلى كرات',
+                DEFORMING_GORES: 'تنطوي الشرائح عائدةً إلى دوائر',
+                EYE_IDLE: 'العين في حالة سكون',
+            },
+            paused: 'متوقف مؤقتًا',
+            playing: 'قيد التشغيل',
+            keyboardHelpTitle: 'اختصارات لوحة المفاتيح',
+            keyboardHelp: [
+                ['مفاتيح الأسهم', 'تدوير'],
+                ['+ / -', 'تكبير / تصغير'],
+                ['مسافة', 'إيقاف مؤقت / استئناف'],
+                ['Home', 'إعادة ضبط العرض'],
+                ['W / U', 'طيّ / بسط الشعار'],
+                ['S', 'حفظ بصيغة SVG (‏Shift+S: الشعار النهائي)'],
+                ['?', 'إظهار / إخفاء هذه المساعدة'],
+            ],
+        },
+    },
+    ja: {
+        code: 'ja',
+        dir: 'ltr',
+        strings: {
+            ...en.strings,
+            stageWords: ['観察', '発見', '変革'],
+            missionHtml: '私たちのシステムは、キャンペーン戦略からクリエイティブの承認まで、あらゆる業界で迅速かつ効果的な意思決定を導く<span class="highlight">インテリジェンス</span>を提供します。',
+            logoLabel: 'Sophon ロゴアニメーション',
+            logoRoleDescription: '3D ロゴ',
+            phaseLabels: {
+                INITIAL_CIRCLES_MOVE: '目が開いて円になります',
+                FORMING_GORES: '球体に舟形が描かれます',
+                UNWRAPPING: '球体が展開します',
+                UNWRAPPED_IDLE: 'ロゴが展開されました',
+                WRAPPING: 'ロゴが球体に戻ります',
+                DEFORMING_GORES: '舟形が円に戻ります',
+                EYE_IDLE: '目が静止しています',
+            },
+            paused: '一時停止中',
+            playing: '再生中',
+            keyboardHelpTitle: 'キーボードショートカット',
+            keyboardHelp: [
+                ['矢印キー', '回転'],
+                ['+ / -', '拡大 / 縮小'],
+                ['スペース', '一時停止 / 再開'],
+                ['Home', '表示をリセット'],
+                ['W / U', 'ロゴを包む / 展開する'],
+                ['S', 'SVG として保存（Shift+S: 完成したロゴ）'],
+                ['?', 'このヘルプを表示 / 非表示'],
+            ],
+        },
+    },
+};
+
+// Best match for `requested` (e.g. a ?lang= value), then the browser languages; falls back to English.
+// Exact tags win over their base language ('pt-BR' before 'pt').
+export function resolveLocale(requested?: string | null, preferred: readonly string[] = navigatorLanguages()): HeroLocale {
+    const candidates = [requested, ...preferred].filter((c): c is string => !!c);
+    for (const tag of candidates) {
+        const lower = tag.toLowerCase();
+        const exact = Object.keys(LOCALES).find(code => code.toLowerCase() === lower);
+        if (exact) return LOCALES[exact];
+        const base = LOCALES[lower.split('-')[0]];
+        if (base) return base;
+    }
+    return en;
+}
+
+function navigatorLanguages(): string[] {
+    if (typeof navigator === 'undefined') return [];
+    return navigator.languages?.length ? [...navigator.languages] : [navigator.language].filter(Boolean);
+}
+
+type GraphemeSegmenter = { segment(text: string): Iterable<{ segment: string }> };
+type SegmenterCtor = new (locale?: string, options?: { granularity: 'grapheme' }) => GraphemeSegmenter;
+
+const segmenters = new Map<string, GraphemeSegmenter>();
+
+// User-perceived characters; code points when Intl.Segmenter is unavailable (keeps surrogate pairs intact)
+export function graphemes(text: string, locale = 'en'): string[] {
+    const Segmenter = (Intl as unknown as { Segmenter?: SegmenterCtor }).Segmenter;
+    if (!Segmenter) return Array.from(text);
+    let segmenter = segmenters.get(locale);
+    if (!segmenter) {
+        segmenter = new Segmenter(locale, { granularity: 'grapheme' });
+        segmenters.set(locale, segmenter);
+    }
+    return Array.from(segmenter.segment(text), s => s.segment);
+}
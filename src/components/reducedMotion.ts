@@ -0,0 +1,16 @@
+// prefers-reduced-motion helpers shared by the hero and mission components
+
+const QUERY = '(prefers-reduced-motion: reduce)';
+
+export function prefersReducedMotion(): boolean {
+    return typeof window.matchMedia === 'function' && window.matchMedia(QUERY).matches;
+}
+
+// Call `listener` whenever the OS setting flips; returns the unsubscribe function
+export function onReducedMotionChange(listener: (reduced: boolean) => void): () => void {
+    if (typeof window.matchMedia !== 'function') return () => { };
+    const mql = window.matchMedia(QUERY);
+    const handler = (e: MediaQueryListEvent) => listener(e.matches);
+    mql.addEventListener('change', handler);
+    return () => mql.removeEventListener('change', handler);
+}
@@ -4,12 +4,18 @@ import { CompanyName } from './components/Hero/CompanyName/CompanyName';
 import { CompanyNameMobile } from './components/Hero/CompanyName/CompanyNameMobile';
 import { MissionStatement } from './components/MissionStatment/MissionStatement';
 import { MissionStatementMobile } from './components/MissionStatment/MissionStatementMobile';
+import { HeroEventBus } from './components/Hero/events';
+import { ThemeController, type HeroThemeName } from './components/Hero/theme';
+import { resolveLocale } from './components/i18n';
 import './styles/main.css';
 
 class App {
   private background!: Background;
   private companyName!: CompanyName;
   private mission!: MissionStatement;
+  // One bus per hero so its components only hear each other
+  private heroEvents = new HeroEventBus();
+  private theme = new ThemeController(this.heroEvents, document.body);
 
   constructor() {
     this.init();
@@ -25,10 +31,39 @@ class App {
     const useMobile = this.detectMobile();
     console.log('Device mode:', useMobile ? 'mobile' : 'desktop');
 
+    // Optional scroll-driven hero (?hero=scroll): scrolling through a track unfolds the logo
+    const params = new URLSearchParams(window.location.search);
+    const scrollDriven = params.get('hero') === 'scroll';
+    // Optional ball motion seed (?seed=123) to reproduce a session
+    const seedParam = params.get('seed');
+    const ballSeed = seedParam !== null && /^\d+$/.test(seedParam) ? Number(seedParam) : undefined;
+    // Locale (?lang=de), otherwise the browser languages
+    const locale = resolveLocale(params.get('lang'));
+    document.documentElement.lang = locale.code;
+    document.documentElement.dir = locale.dir;
+    // GPU unfolding (?morph=gpu) and lattice resolution multiplier (?detail=4)
+    const gpuMorph = params.get('morph') === 'gpu';
+    const detailParam = params.get('detail');
+    const goreDetail = detailParam !== null && /^\d+$/.test(detailParam) ? Number(detailParam) : undefined;
+    // Flat layout of the unwrapped logo (?projection=goode)
+    const projection = params.get('projection') ?? undefined;
+
     // Create Hero section container
     const hero = document.createElement('section');
     hero.className = 'hero';
-    appContainer.appendChild(hero);
+    let scrollTrack: HTMLDivElement | null = null;
+    if (scrollDriven) {
+      // The hero stays pinned (sticky) while the page scrolls through the taller track
+      scrollTrack = document.createElement('div');
+      scrollTrack.className = 'hero-scroll-track';
+      scrollTrack.appendChild(hero);
+      appContainer.appendChild(scrollTrack);
+      // Scrolling is the control here, so never lock it
+      document.body.style.overflowY = 'auto';
+      document.body.style.overflowX = 'hidden';
+    } else {
+      appContainer.appendChild(hero);
+    }
 
     // Create Mission section container (separate section under the hero)
     const missionSection = document.createElement('section');
@@ -37,25 +72,23 @@ class App {
 
     // Initialize CompanyName inside Hero - use mobile version if on mobile device
     this.companyName = useMobile
-      ? new CompanyNameMobile(hero)
-      : new CompanyName(hero);
+      ? new CompanyNameMobile(hero, this.heroEvents, locale)
+      : new CompanyName(hero, this.heroEvents, locale);
 
     // Initialize Mission Statement in its own section (no hero spacer)
     this.mission = useMobile
-      ? new MissionStatementMobile(missionSection, true)
-      : new MissionStatement(missionSection, true);
+      ? new MissionStatementMobile(missionSection, true, locale)
+      : new MissionStatement(missionSection, true, locale);
 
     // Initialize Three.js background component with callback
     // Reveal mission once company name finishes typing
-    const onNameFinished = () => {
+    this.heroEvents.on('companyNameTypingFinished', () => {
       // Small delay so mission appears slightly after the name reveal
       const delay = 800; // ms
       setTimeout(() => {
         this.mission.show();
       }, delay);
-      window.removeEventListener('companyNameTypingFinished', onNameFinished as EventListener);
-    };
-    window.addEventListener('companyNameTypingFinished', onNameFinished as EventListener);
+    });
 
     this.background = (useMobile
       ? new BackgroundMobile(hero, () => {
@@ -63,20 +96,47 @@ class App {
         // Allow vertical scrolling only after hero animation completes
         document.body.style.overflowY = 'auto';
         document.body.style.overflowX = 'hidden';
-      })
+      }, { events: this.heroEvents, ballSeed, locale, gpuMorph, goreDetail, projection })
       : new Background(hero, () => {
         this.companyName.show();
         // Allow vertical scrolling only after hero animation completes
         document.body.style.overflowY = 'auto';
         document.body.style.overflowX = 'hidden';
-      })) as Background;
+      }, { events: this.heroEvents, ballSeed, locale, gpuMorph, goreDetail, projection })) as Background;
+    if (scrollTrack) this.background.setScrollDriven(scrollTrack);
+    // Scrubbing (seek) shows the name only where the unwrap has completed; it retypes from there
+    this.heroEvents.on('heroSeek', ({ unwrapped }) => {
+      if (unwrapped) {
+        this.companyName.show();
+      } else {
+        this.companyName.hide();
+        this.mission.hide();
+      }
+    });
+    // Optional ball data feed (?balls=/path/to/feed.json), reloaded every 10s
+    const ballFeed = params.get('balls');
+    if (ballFeed) this.background.bindBallData(ballFeed, { pollMs: 10000 });
+
+    // Theme (?theme=dark|light|brand|system); components are subscribed now, so broadcast the initial one
+    this.applyThemeParam(params.get('theme'));
 
     // Add simple keyboard triggers:
     //  - 'w' => wrap back (from UNWRAPPED_IDLE)
     //  - 'u' => unwrap again (from EYE_IDLE)
+    //  - 's' => download the current frame as SVG ('S' for the final unwrapped logo)
     document.addEventListener('keydown', this.onKeyDown);
   }
 
+  private applyThemeParam(param: string | null): void {
+    if (param === 'system') {
+      this.theme.followSystemScheme(true);
+    } else if (param === 'light' || param === 'dark' || param === 'brand') {
+      this.theme.setTheme(param as HeroThemeName, 0);
+    } else {
+      this.theme.apply();
+    }
+  }
+
   private detectMobile(): boolean {
     const isTouch = 'ontouchstart' in window || (navigator as any).maxTouchPoints > 0;
     const smallScreen = Math.min(window.innerWidth, window.innerHeight) <= 768;
@@ -86,11 +146,28 @@ class App {
   }
 
   private onKeyDown = (e: KeyboardEvent) => {
+    // Leave browser shortcuts and typing in form fields alone
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+    const target = e.target as HTMLElement | null;
+    if (target && (target.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(target.tagName))) return;
     const k = e.key.toLowerCase();
     if (k === 'w') this.background?.startWrap();
     if (k === 'u') this.background?.startUnwrap();
+    if (k === 's') this.downloadSvg(e.shiftKey ? 'final' : 'current');
   };
 
+  private downloadSvg(frame: 'current' | 'final'): void {
+    if (!this.background) return;
+    const blob = new Blob([this.background.exportSVG(frame)], { type: 'image/svg+xml' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `sophon-${frame}.svg`;
+    a.click();
+    // Revoking synchronously can cancel the download in some browsers; let it start first
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+
   public destroy(): void {
     if (this.background) {
       this.background.destroy();
@@ -101,8 +178,9 @@ class App {
     if (this.mission) {
       this.mission.destroy();
     }
-    // Clean any potential lingering listener
-    try { window.removeEventListener('companyNameTypingFinished', (this as any).onNameFinished as EventListener); } catch { }
+    this.theme.destroy();
+    // Drop any lingering hero subscriptions
+    this.heroEvents.clear();
     document.removeEventListener('keydown', this.onKeyDown);
   }
 }